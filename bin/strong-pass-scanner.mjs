@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// Entry point for the CLI built by `npm run build:cli`.
+import { main } from '../dist-cli/main.js';
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,41 @@
+// Builds the ranked word lists in public/dictionaries from the frequency lists that
+// ship with zxcvbn. Each asset is a gzipped, newline-separated list in rank order.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { gzipSync } from 'node:zlib';
+
+const require = createRequire(import.meta.url);
+const lists = require('zxcvbn/lib/frequency_lists.js');
+
+function interleave(...sources) {
+  const merged = [];
+  const longest = Math.max(...sources.map(source => source.length));
+  for (let i = 0; i < longest; i++) {
+    for (const source of sources) {
+      if (i < source.length) merged.push(source[i]);
+    }
+  }
+  return merged;
+}
+
+function unique(words) {
+  return Array.from(new Set(words.map(word => word.toLowerCase())));
+}
+
+const dictionaries = {
+  passwords: lists.passwords,
+  english: lists.english_wikipedia,
+  'first-names': interleave(lists.female_names, lists.male_names),
+  surnames: lists.surnames,
+  'tv-and-film': lists.us_tv_and_film,
+};
+
+const outDir = new URL('../public/dictionaries/', import.meta.url);
+mkdirSync(outDir, { recursive: true });
+
+for (const [name, words] of Object.entries(dictionaries)) {
+  const ranked = unique(words);
+  const data = gzipSync(ranked.join('\n'), { level: 9 });
+  writeFileSync(new URL(`${name}.txt.gz`, outDir), data);
+  console.log(`${name}: ${ranked.length} words, ${data.length} bytes`);
+}
@@ -0,0 +1,40 @@
+// Trains the character-level Markov model in public/models from the common password
+// list that ships with zxcvbn. The asset is gzipped JSON holding the counts of every
+// 1- to ORDER-gram, with START and END marking the password boundaries.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { gzipSync } from 'node:zlib';
+
+const ORDER = 3;
+const START = '\u0002';
+const END = '\u0003';
+// Longest grams seen only once are dropped; they carry little signal and most of the size.
+const MIN_TOP_ORDER_COUNT = 2;
+
+const require = createRequire(import.meta.url);
+const { passwords } = require('zxcvbn/lib/frequency_lists.js');
+
+const counts = new Map();
+for (const password of passwords) {
+  const chars = [...START.repeat(ORDER - 1), ...password.toLowerCase(), END];
+  for (let i = ORDER - 1; i < chars.length; i++) {
+    for (let n = 1; n <= ORDER; n++) {
+      const gram = chars.slice(i - n + 1, i + 1).join('');
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+}
+
+const grams = {};
+for (const [gram, count] of counts) {
+  if (Array.from(gram).length === ORDER && count < MIN_TOP_ORDER_COUNT) continue;
+  grams[gram] = count;
+}
+
+const model = { version: 1, order: ORDER, start: START, end: END, trainedOn: passwords.length, grams };
+const data = gzipSync(JSON.stringify(model), { level: 9 });
+
+const outDir = new URL('../public/models/', import.meta.url);
+mkdirSync(outDir, { recursive: true });
+writeFileSync(new URL('ngram.json.gz', outDir), data);
+console.log(`ngram: ${Object.keys(grams).length} grams, ${data.length} bytes`);
@@ -0,0 +1,42 @@
+// Trains the probabilistic context-free grammar in public/models from the common
+// password list that ships with zxcvbn. Passwords are split into runs of letters (L),
+// digits (D) and symbols (S); the asset is gzipped JSON holding how often each
+// structure (e.g. L6D2) and each terminal of every segment (e.g. D2 → "12") occurs.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { gzipSync } from 'node:zlib';
+
+const require = createRequire(import.meta.url);
+const { passwords } = require('zxcvbn/lib/frequency_lists.js');
+
+function segment(password) {
+  return (password.toLowerCase().match(/[a-z]+|[0-9]+|[^a-z0-9]+/g) ?? []).map(value => ({
+    type: /[a-z]/.test(value[0]) ? 'L' : /[0-9]/.test(value[0]) ? 'D' : 'S',
+    value,
+  }));
+}
+
+function increment(table, key) {
+  table[key] = (table[key] ?? 0) + 1;
+}
+
+const structures = {};
+const terminals = {};
+
+for (const password of passwords) {
+  const segments = segment(password);
+  increment(structures, segments.map(s => `${s.type}${Array.from(s.value).length}`).join(''));
+  for (const s of segments) {
+    const key = `${s.type}${Array.from(s.value).length}`;
+    terminals[key] ??= {};
+    increment(terminals[key], s.value);
+  }
+}
+
+const model = { version: 1, trainedOn: passwords.length, structures, terminals };
+const data = gzipSync(JSON.stringify(model), { level: 9 });
+
+const outDir = new URL('../public/models/', import.meta.url);
+mkdirSync(outDir, { recursive: true });
+writeFileSync(new URL('pcfg.json.gz', outDir), data);
+console.log(`pcfg: ${Object.keys(structures).length} structures, ${data.length} bytes`);
@@ -0,0 +1,53 @@
+// Builds the passphrase word lists in public/wordlists from the EFF dice lists.
+// Downloads them from eff.org, or reads local copies with `--from <dir>`. Each asset
+// is a gzipped, newline-separated list with the dice numbers removed.
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+const SOURCES = {
+  'eff-long': {
+    file: 'eff_large_wordlist.txt',
+    url: 'https://www.eff.org/files/2016/07/18/eff_large_wordlist.txt',
+    size: 7776,
+  },
+  'eff-short': {
+    file: 'eff_short_wordlist_1.txt',
+    url: 'https://www.eff.org/files/2016/09/08/eff_short_wordlist_1.txt',
+    size: 1296,
+  },
+};
+
+const fromIndex = process.argv.indexOf('--from');
+const fromDir = fromIndex >= 0 ? process.argv[fromIndex + 1] : null;
+
+async function readSource({ file, url }) {
+  if (fromDir && existsSync(join(fromDir, file))) return readFileSync(join(fromDir, file), 'utf8');
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: ${response.status}`);
+  return response.text();
+}
+
+const outDir = new URL('../public/wordlists/', import.meta.url);
+mkdirSync(outDir, { recursive: true });
+
+let failed = false;
+for (const [name, source] of Object.entries(SOURCES)) {
+  try {
+    const words = (await readSource(source))
+      .split('\n')
+      .map(line => line.trim().split(/\s+/).pop())
+      .filter(Boolean);
+    if (words.length !== source.size) {
+      throw new Error(`expected ${source.size} words, got ${words.length}`);
+    }
+    const data = gzipSync(words.join('\n'), { level: 9 });
+    writeFileSync(new URL(`${name}.txt.gz`, outDir), data);
+    console.log(`${name}: ${words.length} words, ${data.length} bytes`);
+  } catch (error) {
+    console.error(`${name}: ${error.message}`);
+    failed = true;
+  }
+}
+
+if (failed) process.exit(1);
@@ -0,0 +1,48 @@
+import { BatchRow } from '@/utils/batch';
+import { formatGuesses } from '@/utils/format';
+import { PasswordAnalysis, PATTERN_LABELS } from '@/utils/passwordAnalysis';
+
+export type OutputFormat = 'json' | 'table';
+
+/** Two aligned columns of labels and values. */
+export function keyValueTable(rows: [string, string][]): string {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`).join('\n');
+}
+
+export function analysisTable(analysis: PasswordAnalysis): string {
+  const rows: [string, string][] = [
+    ['Score', `${analysis.score}/4 (${analysis.strength})`],
+    ['Length', String(analysis.length)],
+    ['Entropy', `${analysis.entropy.toFixed(1)} bits brute-force, ${analysis.effectiveEntropy.toFixed(1)} effective`],
+    ['Guesses', formatGuesses(analysis.attackGuesses)],
+    ['Crack time', analysis.crackTime],
+  ];
+  if (analysis.breach) {
+    rows.push(['Breaches', analysis.breach.breached ? `found ${analysis.breach.count.toLocaleString()} times` : 'not found']);
+  }
+  for (const match of analysis.matches) {
+    rows.push(['Pattern', `${PATTERN_LABELS[match.kind]}: ${match.token}`]);
+  }
+  for (const item of analysis.feedback) rows.push(['Feedback', item]);
+  return keyValueTable(rows);
+}
+
+const BATCH_COLUMNS: { label: string; width: number; value: (row: BatchRow) => string }[] = [
+  { label: '#', width: 6, value: row => String(row.index) },
+  { label: 'Score', width: 6, value: row => `${row.score}/4` },
+  { label: 'Guesses', width: 10, value: row => formatGuesses(row.guesses) },
+  { label: 'Length', width: 7, value: row => String(row.length) },
+  { label: 'Mask', width: 16, value: row => row.mask },
+  { label: 'Policy', width: 8, value: row => row.policy ?? '' },
+  { label: 'Patterns', width: 0, value: row => row.patterns.map(kind => PATTERN_LABELS[kind]).join(', ') },
+];
+
+/** Fixed-width columns, so rows can be printed as they are produced. */
+export function batchTableHeader(): string {
+  return BATCH_COLUMNS.map(column => column.label.padEnd(column.width)).join(' ').trimEnd();
+}
+
+export function batchTableRow(row: BatchRow): string {
+  return BATCH_COLUMNS.map(column => column.value(row).padEnd(column.width)).join(' ').trimEnd();
+}
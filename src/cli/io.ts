@@ -0,0 +1,57 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { setAssetReader } from '@/utils/assets';
+
+/** Where the word lists and models live: the repo's `public/` next to the built CLI. */
+export function defaultAssetDirectory(): string {
+  return process.env.STRONG_PASS_SCANNER_ASSETS ?? fileURLToPath(new URL('../public/', import.meta.url));
+}
+
+export function readAssetsFrom(directory: string) {
+  setAssetReader(path => readFile(join(directory, path)));
+}
+
+/** Reads a line from the terminal without echoing it. */
+export function promptHidden(question: string): Promise<string> {
+  const { stdin, stderr } = process;
+  return new Promise((resolve, reject) => {
+    let value = '';
+    const finish = (error?: Error) => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write('\n');
+      if (error) reject(error);
+      else resolve(value);
+    };
+    const onData = (chunk: string) => {
+      // Arrow keys and other escape sequences are ignored rather than typed
+      if (chunk.startsWith('\u001b')) return;
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n' || char === '\u0004') return finish();
+        if (char === '\u0003') return finish(new Error('Cancelled'));
+        if (char === '\u007f' || char === '\b') value = Array.from(value).slice(0, -1).join('');
+        else if (char >= ' ') value += char;
+      }
+    };
+
+    stderr.write(question);
+    stdin.setEncoding('utf8');
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+/** The first line of a piped input, without its line ending. */
+export async function readFirstLine(input: Readable): Promise<string> {
+  for await (const line of readLines(input)) return line;
+  return '';
+}
+
+export function readLines(input: Readable): AsyncIterable<string> {
+  return createInterface({ input, crlfDelay: Infinity });
+}
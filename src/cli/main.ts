@@ -0,0 +1,456 @@
+import { createReadStream, existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs, ParseArgsConfig } from 'node:util';
+import { QueryClient } from '@tanstack/react-query';
+import { AnalysisProvider, analyzePasswordAsync, breachAnalysisProvider } from '@/utils/asyncAnalysis';
+import { toBatchRow } from '@/utils/batch';
+import {
+  BREACH_HASH_LABELS,
+  BreachHashType,
+  buildBreachIndex,
+  rangePrefixFromFileName,
+  readBreachIndex,
+} from '@/utils/breachIndex';
+import { createIndexProvider, createRangeProvider, DEFAULT_RANGE_ENDPOINT } from '@/utils/breachProvider';
+import {
+  DEFAULT_GENERATION_POLICY,
+  describeSpace,
+  GENERATOR_CLASSES,
+  generatePassword,
+  GenerationPolicy,
+  GeneratorClass,
+  MAX_CLASS_MINIMUM,
+  MAX_GENERATED_LENGTH,
+} from '@/utils/generator';
+import { generateFromMask, maskSpace, parseMask } from '@/utils/mask';
+import {
+  Capitalisation,
+  DEFAULT_PASSPHRASE_OPTIONS,
+  generatePassphrase,
+  loadWordlist,
+  parseWordlist,
+  passphraseEntropy,
+  WORDLIST_LABELS,
+  WordlistName,
+} from '@/utils/passphrase';
+import { parsePolicy, PasswordPolicy, POLICY_PRESETS } from '@/utils/policy';
+import {
+  DEFAULT_PRONOUNCEABLE_OPTIONS,
+  generatePronounceable,
+  pronounceableSpace,
+  SyllableTemplate,
+} from '@/utils/pronounceable';
+import { analysisReport } from '@/utils/report';
+import { UserInputs } from '@/utils/userInputs';
+import { getAnalysisClient } from '@/workers/analysisClient';
+import { createAnalysisServer, DEFAULT_SERVER_OPTIONS } from '@/server/server';
+import {
+  analysisTable,
+  batchTableHeader,
+  batchTableRow,
+  keyValueTable,
+  OutputFormat,
+} from './format';
+import { defaultAssetDirectory, promptHidden, readAssetsFrom, readFirstLine, readLines } from './io';
+
+const USAGE = `Usage: strong-pass-scanner <command> [options]
+
+Commands:
+  analyze [password]    Score one password. Without an argument it is read from
+                        stdin, or from a hidden prompt in a terminal. Arguments
+                        end up in shell history; prefer the prompt.
+    --name, --email, --username, --company, --site <value>
+                        Personal details to penalise, as in the web form
+    --breach-index <file>
+                        Look the password up in an index from breach-index; a
+                        breached password scores 0
+    --check-breaches    Look the password up online (k-anonymity range API)
+    --breach-endpoint <url>
+                        Range API for --check-breaches (default: Pwned Passwords)
+
+  generate              Generate passwords
+    --mode random|passphrase|pronounceable|mask   (default: random)
+    --count <n>         How many to generate (default: 1)
+    random:        --length <n> --classes lowercase,uppercase,digits,symbols
+                   --min-lowercase/--min-uppercase/--min-digits/--min-symbols <n>
+                   --symbols <chars> --exclude <chars> --max-consecutive <n>
+                   --forbid <text> (repeatable)
+    passphrase:    --words <n> --wordlist eff-long|<file>
+                   --separator <text> --capitalisation lower|upper|title|random
+                   --digit --symbol --symbols <chars>
+    pronounceable: --length <letters> --templates CV,CVC --separator <text>
+                   --uppercase <n> --digits <n> --symbol-count <n> --symbols <chars>
+    mask:          --mask <mask>, e.g. 'Cvcc-dddd-SSss'
+
+  batch [file]          Score one password per line from a file or stdin and
+                        print one result per line (JSON Lines by default)
+    --policy <id|file>  Check each entry against a preset (${POLICY_PRESETS.map(p => p.id).join(', ')})
+                        or a JSON/YAML policy file
+    --include-password  Include the password in each result
+
+  serve                 Run a local JSON API: POST /analyze, /generate and /policy,
+                        GET /health
+    --host <address>    Interface to listen on (default: 127.0.0.1)
+    --port <n>          Port to listen on (default: 8787)
+    --max-body-size <bytes>
+                        Largest request body accepted (default: ${DEFAULT_SERVER_OPTIONS.maxBodyBytes})
+    --log-bodies        Log request and response bodies with each request line.
+                        Passwords, personal details, guesses and rule details are
+                        redacted from them
+
+  breach-index <file|dir>...
+                        Build a compact offline breach index from Pwned Passwords
+                        range files (or HASH:COUNT lists) for the web app to import
+    --type sha1|ntlm    Hash type of the input files (default: sha1)
+    --output <file>     Where to write the index (required)
+    --merge <file>      Add to an existing index instead of starting empty
+
+Options for every command:
+  --format json|table   Output format (default: table, or json for batch)
+  --min-score <0-4>     Exit with status 1 if any password scores lower
+  -h, --help            Show this help
+
+Exit status: 0 on success, 1 if a password is below --min-score, 2 on errors.`;
+
+const COMMON_OPTIONS = {
+  format: { type: 'string' },
+  'min-score': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} satisfies ParseArgsConfig['options'];
+
+function integer(value: string | undefined, name: string, fallback: number, min = 0, max = Infinity): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`--${name} must be a whole number${max < Infinity ? ` from ${min} to ${max}` : ` of at least ${min}`}`);
+  }
+  return number;
+}
+
+function outputFormat(value: string | undefined, fallback: OutputFormat): OutputFormat {
+  if (value === undefined) return fallback;
+  if (value !== 'json' && value !== 'table') throw new Error('--format must be json or table');
+  return value;
+}
+
+function print(line: string) {
+  process.stdout.write(`${line}\n`);
+}
+
+async function analyze(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...COMMON_OPTIONS,
+      name: { type: 'string' },
+      email: { type: 'string' },
+      username: { type: 'string' },
+      company: { type: 'string' },
+      site: { type: 'string' },
+      'breach-index': { type: 'string' },
+      'check-breaches': { type: 'boolean' },
+      'breach-endpoint': { type: 'string' },
+    },
+  });
+  const format = outputFormat(values.format, 'table');
+  const minScore = integer(values['min-score'], 'min-score', 0, 0, 4);
+  const userInputs: UserInputs = {
+    name: values.name,
+    email: values.email,
+    username: values.username,
+    company: values.company,
+    siteDomain: values.site,
+  };
+
+  const password = positionals[0]
+    ?? (process.stdin.isTTY ? await promptHidden('Password: ') : await readFirstLine(process.stdin));
+
+  const queryClient = new QueryClient();
+  const providers: AnalysisProvider[] = [];
+  if (values['breach-index']) {
+    providers.push(breachAnalysisProvider(createIndexProvider(readBreachIndex(readFileSync(values['breach-index'])))));
+  }
+  if (values['check-breaches'] || values['breach-endpoint']) {
+    const endpoint = values['breach-endpoint'] ?? DEFAULT_RANGE_ENDPOINT;
+    providers.push(breachAnalysisProvider(createRangeProvider(queryClient, { endpoint })));
+  }
+
+  const client = getAnalysisClient();
+  await client.ready;
+  // Clearing the cache afterwards stops its expiry timers keeping the process alive
+  const analysis = await analyzePasswordAsync(password, {
+    userInputs,
+    entropyPerCharacter: false,
+    providers,
+    analyze: (text, options) => client.analyze(text, options),
+  }).finally(() => queryClient.clear());
+  // A failed lookup would otherwise pass as "not breached"
+  if (analysis.providerErrors) {
+    throw new Error(analysis.providerErrors.map(error => error.message).join('; '));
+  }
+
+  print(format === 'json' ? JSON.stringify(analysisReport(analysis), null, 2) : analysisTable(analysis));
+  return analysis.score < minScore ? 1 : 0;
+}
+
+function randomPolicy(values: Record<string, string | string[] | boolean | undefined>): GenerationPolicy {
+  const classes = typeof values.classes === 'string'
+    ? values.classes.split(',').map(name => name.trim())
+    : GENERATOR_CLASSES;
+  const minCounts: GenerationPolicy['minCounts'] = {};
+  for (const name of classes) {
+    if (!GENERATOR_CLASSES.includes(name as GeneratorClass)) throw new Error(`Unknown class "${name}"`);
+    minCounts[name as GeneratorClass] = integer(values[`min-${name}`] as string, `min-${name}`, 1, 0, MAX_CLASS_MINIMUM);
+  }
+  return {
+    length: integer(values.length as string, 'length', DEFAULT_GENERATION_POLICY.length, 1, MAX_GENERATED_LENGTH),
+    minCounts,
+    symbols: (values.symbols as string) ?? DEFAULT_GENERATION_POLICY.symbols,
+    exclude: (values.exclude as string) ?? '',
+    maxConsecutive: integer(values['max-consecutive'] as string, 'max-consecutive', 0),
+    forbiddenSubstrings: (values.forbid as string[]) ?? [],
+  };
+}
+
+/** Returns a function drawing one password and the exact entropy of the space it draws from. */
+async function generatorFor(values: Record<string, string | string[] | boolean | undefined>): Promise<[() => string, number]> {
+  const mode = (values.mode as string) ?? 'random';
+
+  if (mode === 'random') {
+    const policy = randomPolicy(values);
+    return [() => generatePassword(policy), describeSpace(policy).entropy];
+  }
+
+  if (mode === 'passphrase') {
+    const wordlist = (values.wordlist as string) ?? 'eff-long';
+    const words = wordlist in WORDLIST_LABELS
+      ? await loadWordlist(wordlist as WordlistName)
+      : parseWordlist(readFileSync(wordlist, 'utf8'));
+    const capitalisation = (values.capitalisation as Capitalisation) ?? DEFAULT_PASSPHRASE_OPTIONS.capitalisation;
+    if (!['lower', 'upper', 'title', 'random'].includes(capitalisation)) {
+      throw new Error('--capitalisation must be lower, upper, title or random');
+    }
+    const options = {
+      wordCount: integer(values.words as string, 'words', DEFAULT_PASSPHRASE_OPTIONS.wordCount, 1, 64),
+      separator: (values.separator as string) ?? DEFAULT_PASSPHRASE_OPTIONS.separator,
+      capitalisation,
+      includeDigit: Boolean(values.digit),
+      includeSymbol: Boolean(values.symbol),
+      symbols: (values.symbols as string) ?? DEFAULT_PASSPHRASE_OPTIONS.symbols,
+    };
+    return [() => generatePassphrase(words, options), passphraseEntropy(words.length, options)];
+  }
+
+  if (mode === 'pronounceable') {
+    const templates = typeof values.templates === 'string'
+      ? values.templates.split(',').map(name => name.trim().toUpperCase())
+      : DEFAULT_PRONOUNCEABLE_OPTIONS.templates;
+    if (templates.some(name => name !== 'CV' && name !== 'CVC')) throw new Error('--templates must list CV and/or CVC');
+    const options = {
+      length: integer(values.length as string, 'length', DEFAULT_PRONOUNCEABLE_OPTIONS.length, 2, 128),
+      templates: templates as SyllableTemplate[],
+      separator: (values.separator as string) ?? DEFAULT_PRONOUNCEABLE_OPTIONS.separator,
+      uppercase: integer(values.uppercase as string, 'uppercase', DEFAULT_PRONOUNCEABLE_OPTIONS.uppercase),
+      digits: integer(values.digits as string, 'digits', DEFAULT_PRONOUNCEABLE_OPTIONS.digits),
+      symbols: integer(values['symbol-count'] as string, 'symbol-count', DEFAULT_PRONOUNCEABLE_OPTIONS.symbols),
+      symbolSet: (values.symbols as string) ?? DEFAULT_PRONOUNCEABLE_OPTIONS.symbolSet,
+    };
+    return [() => generatePronounceable(options), pronounceableSpace(options).entropy];
+  }
+
+  if (mode === 'mask') {
+    if (typeof values.mask !== 'string') throw new Error('--mode mask needs --mask');
+    const positions = parseMask(values.mask);
+    return [() => generateFromMask(positions), maskSpace(positions).entropy];
+  }
+
+  throw new Error('--mode must be random, passphrase, pronounceable or mask');
+}
+
+async function generate(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...COMMON_OPTIONS,
+      mode: { type: 'string' },
+      count: { type: 'string' },
+      length: { type: 'string' },
+      classes: { type: 'string' },
+      'min-lowercase': { type: 'string' },
+      'min-uppercase': { type: 'string' },
+      'min-digits': { type: 'string' },
+      'min-symbols': { type: 'string' },
+      symbols: { type: 'string' },
+      exclude: { type: 'string' },
+      'max-consecutive': { type: 'string' },
+      forbid: { type: 'string', multiple: true },
+      words: { type: 'string' },
+      wordlist: { type: 'string' },
+      separator: { type: 'string' },
+      capitalisation: { type: 'string' },
+      digit: { type: 'boolean' },
+      symbol: { type: 'boolean' },
+      templates: { type: 'string' },
+      uppercase: { type: 'string' },
+      digits: { type: 'string' },
+      'symbol-count': { type: 'string' },
+      mask: { type: 'string' },
+    },
+  });
+  const format = outputFormat(values.format, 'table');
+  const minScore = integer(values['min-score'], 'min-score', 0, 0, 4);
+  const count = integer(values.count, 'count', 1, 1, 10000);
+
+  const [draw, entropy] = await generatorFor(values);
+  const client = getAnalysisClient();
+  await client.ready;
+
+  let below = false;
+  for (let i = 0; i < count; i++) {
+    const password = draw();
+    const { score } = await client.analyze(password, { entropyPerCharacter: false });
+    below ||= score < minScore;
+    print(format === 'json'
+      ? JSON.stringify({ password, entropy: Math.round(entropy * 10) / 10, score })
+      : keyValueTable([[password, `${entropy.toFixed(1)} bits, score ${score}/4`]]));
+  }
+  return below ? 1 : 0;
+}
+
+function loadPolicy(value: string): PasswordPolicy {
+  const preset = POLICY_PRESETS.find(policy => policy.id === value);
+  if (preset) return preset;
+  if (existsSync(value)) return parsePolicy(readFileSync(value, 'utf8'));
+  throw new Error(`No policy preset or file named "${value}"`);
+}
+
+async function batch(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...COMMON_OPTIONS,
+      policy: { type: 'string' },
+      'include-password': { type: 'boolean' },
+    },
+  });
+  const format = outputFormat(values.format, 'json');
+  const minScore = integer(values['min-score'], 'min-score', 0, 0, 4);
+  const policy = values.policy ? loadPolicy(values.policy) : undefined;
+  const input = positionals[0] ? createReadStream(positionals[0]) : process.stdin;
+
+  await getAnalysisClient().ready;
+  if (format === 'table') print(batchTableHeader());
+
+  let index = 0;
+  let below = false;
+  for await (const line of readLines(input)) {
+    if (!line) continue;
+    const { password, ...row } = toBatchRow(++index, line, policy);
+    below ||= row.score < minScore;
+    if (format === 'table') print(batchTableRow({ password, ...row }));
+    else print(JSON.stringify(values['include-password'] ? { password, ...row } : row));
+  }
+  return below ? 1 : 0;
+}
+
+async function serve(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      help: COMMON_OPTIONS.help,
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'max-body-size': { type: 'string' },
+      'log-bodies': { type: 'boolean' },
+    },
+  });
+  const host = values.host ?? '127.0.0.1';
+  const port = integer(values.port, 'port', 8787, 0, 65535);
+  const server = createAnalysisServer({
+    maxBodyBytes: integer(values['max-body-size'], 'max-body-size', DEFAULT_SERVER_OPTIONS.maxBodyBytes, 1),
+    logBodies: values['log-bodies'] ?? false,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+  process.stderr.write(`strong-pass-scanner: listening on http://${host}:${port}\n`);
+
+  // Containers stop sidecars with SIGTERM; finish open requests first
+  await new Promise<void>(resolve => {
+    const stop = () => server.close(() => resolve());
+    process.once('SIGTERM', stop);
+    process.once('SIGINT', stop);
+  });
+  return 0;
+}
+
+/** Files named on the command line, with directories (as the HIBP downloader writes) expanded. */
+function rangeFiles(paths: string[]): string[] {
+  return paths.flatMap(path =>
+    statSync(path).isDirectory() ? readdirSync(path).sort().map(name => join(path, name)) : [path]
+  );
+}
+
+async function breachIndex(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      help: COMMON_OPTIONS.help,
+      type: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      merge: { type: 'string' },
+    },
+  });
+  const hashType = (values.type ?? 'sha1') as BreachHashType;
+  if (hashType !== 'sha1' && hashType !== 'ntlm') throw new Error('--type must be sha1 or ntlm');
+  if (!values.output) throw new Error('--output is required');
+  if (positionals.length === 0) throw new Error('Name at least one range file or directory');
+
+  const base = values.merge ? readBreachIndex(readFileSync(values.merge)) : undefined;
+  const sources = rangeFiles(positionals).map(path => ({
+    text: readFileSync(path, 'utf8'),
+    prefix: rangePrefixFromFileName(path),
+  }));
+  const index = buildBreachIndex(hashType, sources, base);
+  writeFileSync(values.output, index.bytes);
+  process.stderr.write(
+    `strong-pass-scanner: wrote ${index.size.toLocaleString()} ${BREACH_HASH_LABELS[hashType]} hashes to ${values.output}\n`
+  );
+  return 0;
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  analyze,
+  generate,
+  batch,
+  serve,
+  'breach-index': breachIndex,
+};
+
+/** Runs the CLI with the arguments after the script name and returns the exit status. */
+export async function main(argv: string[], assetDirectory = defaultAssetDirectory()): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    print(USAGE);
+    return command ? 0 : 2;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    process.stderr.write(`strong-pass-scanner: unknown command "${command}"\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  readAssetsFrom(assetDirectory);
+  try {
+    return await run(args);
+  } catch (error) {
+    process.stderr.write(`strong-pass-scanner: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
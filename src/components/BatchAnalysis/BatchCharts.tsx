@@ -0,0 +1,97 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BatchSummary } from '@/utils/batch';
+
+interface BatchChartsProps {
+  summary: BatchSummary;
+}
+
+const SCORE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#16a34a'];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+};
+
+export function BatchCharts({ summary }: BatchChartsProps) {
+  const scores = summary.scores.map((count, score) => ({ name: `${score}`, count }));
+  const largestMask = summary.masks[0]?.count ?? 1;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-semibold flex items-center justify-between">
+            <span>Scores</span>
+            <span className="text-sm font-normal text-muted-foreground">
+              average {summary.averageScore.toFixed(1)}/4
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={scores}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+              <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Bar dataKey="count" radius={[8, 8, 0, 0]}>
+                {scores.map((entry, index) => (
+                  <Cell key={entry.name} fill={SCORE_COLORS[index]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+          {summary.policy && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Policy: {summary.policy.pass.toLocaleString()} compliant, {summary.policy.fail.toLocaleString()} not
+              compliant, {summary.policy.skipped.toLocaleString()} incomplete
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-semibold">Lengths</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={summary.lengths}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="length" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+              <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Bar dataKey="count" fill="hsl(var(--primary))" radius={[8, 8, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-semibold">Most Common Masks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-1.5">
+            {summary.masks.map(({ mask, count }) => (
+              <li key={mask} className="text-xs">
+                <div className="flex justify-between">
+                  <span className="font-mono text-foreground truncate">{mask}</span>
+                  <span className="text-muted-foreground">{count.toLocaleString()}</span>
+                </div>
+                <div className="h-1 rounded bg-muted">
+                  <div className="h-1 rounded bg-primary" style={{ width: `${(count / largestMask) * 100}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground mt-3">
+            u upper, l lower, d digit, s symbol, L other letters. The same notation works in the mask generator.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
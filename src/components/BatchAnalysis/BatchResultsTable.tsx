@@ -0,0 +1,129 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Eye, EyeOff } from 'lucide-react';
+import { BatchRow } from '@/utils/batch';
+import { formatGuesses } from '@/utils/format';
+import { PATTERN_LABELS } from '@/utils/passwordAnalysis';
+import { PolicyStatus } from '@/utils/policy';
+
+interface BatchResultsTableProps {
+  rows: BatchRow[];
+  showPolicy: boolean;
+}
+
+type SortKey = 'index' | 'password' | 'score' | 'guesses' | 'length' | 'patterns' | 'policy';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'index', label: '#' },
+  { key: 'password', label: 'Password' },
+  { key: 'score', label: 'Score' },
+  { key: 'guesses', label: 'Guesses' },
+  { key: 'length', label: 'Length' },
+  { key: 'patterns', label: 'Patterns' },
+  { key: 'policy', label: 'Policy' },
+];
+
+const POLICY_ORDER: Record<PolicyStatus, number> = { fail: 0, skipped: 1, pass: 2 };
+
+const POLICY_LABELS: Record<PolicyStatus, { label: string; color: string }> = {
+  pass: { label: 'Compliant', color: 'text-success' },
+  fail: { label: 'Not compliant', color: 'text-destructive' },
+  skipped: { label: 'Incomplete', color: 'text-warning' },
+};
+
+const PAGE_SIZE = 100;
+
+function sortValue(row: BatchRow, key: SortKey): number | string {
+  if (key === 'patterns') return row.patterns.length;
+  if (key === 'policy') return row.policy ? POLICY_ORDER[row.policy] : -1;
+  return row[key];
+}
+
+export function BatchResultsTable({ rows, showPolicy }: BatchResultsTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('index');
+  const [ascending, setAscending] = useState(true);
+  const [page, setPage] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+
+  const sorted = useMemo(() => {
+    const direction = ascending ? 1 : -1;
+    return [...rows].sort((a, b) => {
+      const left = sortValue(a, sortKey);
+      const right = sortValue(b, sortKey);
+      return (left < right ? -1 : left > right ? 1 : a.index - b.index) * direction;
+    });
+  }, [rows, sortKey, ascending]);
+
+  const pages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const visible = sorted.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const columns = COLUMNS.filter(column => showPolicy || column.key !== 'policy');
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else {
+      setSortKey(key);
+      setAscending(true);
+    }
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => setRevealed(!revealed)}>
+          {revealed ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+          {revealed ? 'Hide passwords' : 'Show passwords'}
+        </Button>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Button variant="ghost" size="icon" disabled={current === 0} onClick={() => setPage(current - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          Page {current + 1} of {pages}
+          <Button variant="ghost" size="icon" disabled={current >= pages - 1} onClick={() => setPage(current + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map(column => (
+              <TableHead key={column.key}>
+                <button className="flex items-center gap-1" onClick={() => sortBy(column.key)}>
+                  {column.label}
+                  {sortKey === column.key && (ascending
+                    ? <ArrowUp className="h-3 w-3" />
+                    : <ArrowDown className="h-3 w-3" />)}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.map(row => (
+            <TableRow key={row.index}>
+              <TableCell className="text-muted-foreground">{row.index}</TableCell>
+              <TableCell className="font-mono text-xs break-all">
+                {revealed ? row.password : '•'.repeat(Math.min(row.length, 16))}
+              </TableCell>
+              <TableCell>{row.score}/4</TableCell>
+              <TableCell className="font-mono text-xs">{formatGuesses(row.guesses)}</TableCell>
+              <TableCell>{row.length}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {row.patterns.map(kind => PATTERN_LABELS[kind]).join(', ') || '—'}
+              </TableCell>
+              {showPolicy && (
+                <TableCell className={`text-xs ${row.policy ? POLICY_LABELS[row.policy].color : ''}`}>
+                  {row.policy && POLICY_LABELS[row.policy].label}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
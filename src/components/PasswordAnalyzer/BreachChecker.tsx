@@ -1,18 +1,126 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { AlertTriangle, CheckCircle, Loader2, Shield } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertTriangle, CheckCircle, Loader2, Settings2, Shield } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useBreachCheck } from '@/hooks/use-breach-check';
+import { BreachResult } from '@/utils/breachIndex';
+import {
+  BreachCheckError,
+  BreachProvider,
+  BreachSettings,
+  createIndexProvider,
+  createRangeProvider,
+  loadBreachSettings,
+  saveBreachSettings,
+} from '@/utils/breachProvider';
+import { breachStoreAvailable, loadStoredBreachIndexes, StoredBreachIndex } from '@/utils/breachStore';
+import { OfflineBreachData } from './OfflineBreachData';
+import { OnlineBreachSettings } from './OnlineBreachSettings';
 
 interface BreachCheckerProps {
   password: string;
+  onResult?: (result: BreachResult) => void;
+  /** The provider to run on every change while "check as you type" is on, otherwise null. */
+  onAutoCheckChange?: (provider: BreachProvider | null) => void;
 }
 
-export function BreachChecker({ password }: BreachCheckerProps) {
-  const [checking, setChecking] = useState(false);
-  const [result, setResult] = useState<{ breached: boolean; count?: number } | null>(null);
+type BreachSource = 'online' | 'offline';
+
+const SOURCE_KEY = 'strong-pass-scanner:breach-source';
+const AUTO_CHECK_KEY = 'strong-pass-scanner:breach-auto-check';
+
+function loadSource(): BreachSource {
+  try {
+    return localStorage.getItem(SOURCE_KEY) === 'offline' ? 'offline' : 'online';
+  } catch {
+    return 'online';
+  }
+}
+
+/** A toast for each way a lookup can fail, instead of one generic message. */
+function failureToast(error: Error): { title: string; description: string } {
+  if (!(error instanceof BreachCheckError)) {
+    return { title: 'Check Failed', description: 'Unable to verify password against breach database' };
+  }
+  switch (error.kind) {
+    case 'offline':
+      return { title: 'Breach Service Unreachable', description: `${error.message}. Check your connection or the endpoint.` };
+    case 'rate-limited':
+      return {
+        title: 'Too Many Requests',
+        description: error.retryAfterMs
+          ? `Try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+          : 'Wait a moment before checking again.',
+      };
+    case 'server':
+      return { title: 'Breach Service Error', description: error.message };
+    case 'no-data':
+      return { title: 'No Offline Data', description: error.message };
+  }
+}
+
+export function BreachChecker({ password, onResult, onAutoCheckChange }: BreachCheckerProps) {
+  const [source, setSource] = useState<BreachSource>(loadSource);
+  const [autoCheck, setAutoCheck] = useState(() => {
+    try {
+      return localStorage.getItem(AUTO_CHECK_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  });
+  const [settings, setSettings] = useState<BreachSettings>(loadBreachSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [indexes, setIndexes] = useState<StoredBreachIndex[]>([]);
+  const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!breachStoreAvailable()) return;
+    loadStoredBreachIndexes()
+      .then(setIndexes)
+      .catch(error => console.error('Failed to load offline breach data:', error));
+  }, []);
+
+  // SHA-1 is what the online API uses, so prefer it when both are imported
+  const offlineIndex = (indexes.find(entry => entry.index.hashType === 'sha1') ?? indexes[0])?.index;
+  const provider = useMemo(
+    () => source === 'offline' ? createIndexProvider(offlineIndex) : createRangeProvider(queryClient, settings),
+    [source, offlineIndex, queryClient, settings]
+  );
+  const { checking, result, check } = useBreachCheck(password, provider);
+
+  useEffect(() => {
+    onAutoCheckChange?.(autoCheck ? provider : null);
+  }, [autoCheck, provider, onAutoCheckChange]);
+
+  const changeSource = (next: BreachSource) => {
+    setSource(next);
+    try {
+      localStorage.setItem(SOURCE_KEY, next);
+    } catch {
+      // Private windows may refuse storage; the choice then lasts for this visit only
+    }
+  };
+
+  const changeAutoCheck = (next: boolean) => {
+    setAutoCheck(next);
+    try {
+      localStorage.setItem(AUTO_CHECK_KEY, String(next));
+    } catch {
+      // Private windows may refuse storage; the choice then lasts for this visit only
+    }
+  };
+
+  const changeSettings = (next: BreachSettings) => {
+    setSettings(next);
+    saveBreachSettings(next);
+  };
+
   const checkBreach = async () => {
     if (!password || password.length < 3) {
       toast({
@@ -23,48 +131,16 @@ export function BreachChecker({ password }: BreachCheckerProps) {
       return;
     }
 
-    setChecking(true);
-    setResult(null);
-
     try {
-      // Hash the password on client side using SHA-1
-      const encoder = new TextEncoder();
-      const data = encoder.encode(password);
-      const hashBuffer = await crypto.subtle.digest('SHA-1', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
-      
-      const prefix = hashHex.substring(0, 5);
-      const suffix = hashHex.substring(5);
-
-      // Query Have I Been Pwned API (k-Anonymity model)
-      const response = await fetch(`https://api.pwnedpasswords.com/range/${prefix}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to check breach database');
-      }
-
-      const text = await response.text();
-      const hashes = text.split('\n');
-      
-      let breached = false;
-      let count = 0;
-
-      for (const line of hashes) {
-        const [hashSuffix, countStr] = line.split(':');
-        if (hashSuffix === suffix) {
-          breached = true;
-          count = parseInt(countStr, 10);
-          break;
-        }
-      }
+      const outcome = await check();
+      // Null when the password changed before the lookup finished
+      if (!outcome) return;
+      onResult?.(outcome);
 
-      setResult({ breached, count });
-
-      if (breached) {
+      if (outcome.breached) {
         toast({
           title: 'Password Breach Detected!',
-          description: `This password has been found in ${count.toLocaleString()} data breaches.`,
+          description: `This password has been found in ${outcome.count.toLocaleString()} data breaches.`,
           variant: 'destructive',
         });
       } else {
@@ -75,13 +151,7 @@ export function BreachChecker({ password }: BreachCheckerProps) {
       }
     } catch (error) {
       console.error('Breach check error:', error);
-      toast({
-        title: 'Check Failed',
-        description: 'Unable to verify password against breach database',
-        variant: 'destructive',
-      });
-    } finally {
-      setChecking(false);
+      toast({ ...failureToast(error as Error), variant: 'destructive' });
     }
   };
 
@@ -94,11 +164,53 @@ export function BreachChecker({ password }: BreachCheckerProps) {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
-        <p className="text-xs text-muted-foreground">
-          Check if this password has been exposed in known data breaches using the
-          Have I Been Pwned API (secure k-Anonymity model).
-        </p>
-        
+        <Tabs value={source} onValueChange={(value) => changeSource(value as BreachSource)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="online">Online</TabsTrigger>
+            <TabsTrigger value="offline" disabled={!breachStoreAvailable()}>Offline</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {source === 'online' ? (
+          <>
+            <div className="flex items-start gap-2">
+              <p className="text-xs text-muted-foreground flex-1">
+                Check if this password has been exposed in known data breaches using {provider.label}.
+                Only the first 5 characters of the password's hash are sent (k-Anonymity model).
+              </p>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setShowSettings(!showSettings)}
+                aria-label="Breach service settings"
+              >
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {showSettings && <OnlineBreachSettings settings={settings} onChange={changeSettings} />}
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Check against Pwned Passwords data imported into this browser. Nothing is sent
+              over the network.
+            </p>
+            <OfflineBreachData indexes={indexes} onChange={setIndexes} />
+          </>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="breach-auto-check"
+            checked={autoCheck}
+            onCheckedChange={(checked) => changeAutoCheck(checked as boolean)}
+          />
+          <Label htmlFor="breach-auto-check" className="text-sm cursor-pointer">
+            Check as you type and include the result in the score
+          </Label>
+        </div>
+
         <Button
           onClick={checkBreach}
           disabled={!password || checking}
@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { AlertTriangle } from 'lucide-react';
 import { PasswordAnalysis } from '@/utils/passwordAnalysis';
 
 interface CharacterDistributionProps {
@@ -11,14 +12,25 @@ const COLORS = {
   lowercase: 'hsl(var(--accent))',
   numbers: 'hsl(var(--info))',
   symbols: 'hsl(var(--warning))',
+  otherLetters: 'hsl(var(--success))',
+};
+
+const DISTRIBUTION_LABELS: Record<keyof PasswordAnalysis['charDistribution'], string> = {
+  uppercase: 'Uppercase',
+  lowercase: 'Lowercase',
+  numbers: 'Numbers',
+  symbols: 'Symbols',
+  otherLetters: 'Uncased letters',
 };
 
 export function CharacterDistribution({ analysis }: CharacterDistributionProps) {
+  const { unicode } = analysis;
   const data = [
-    { name: 'Uppercase (A-Z)', value: analysis.charDistribution.uppercase, color: COLORS.uppercase },
-    { name: 'Lowercase (a-z)', value: analysis.charDistribution.lowercase, color: COLORS.lowercase },
+    { name: 'Uppercase (A-Z, Ж...)', value: analysis.charDistribution.uppercase, color: COLORS.uppercase },
+    { name: 'Lowercase (a-z, ж...)', value: analysis.charDistribution.lowercase, color: COLORS.lowercase },
     { name: 'Numbers (0-9)', value: analysis.charDistribution.numbers, color: COLORS.numbers },
-    { name: 'Symbols (!@#...)', value: analysis.charDistribution.symbols, color: COLORS.symbols },
+    { name: 'Symbols (!@#, emoji...)', value: analysis.charDistribution.symbols, color: COLORS.symbols },
+    { name: 'Uncased letters (漢, ع...)', value: analysis.charDistribution.otherLetters, color: COLORS.otherLetters },
   ].filter(item => item.value > 0);
 
   if (data.length === 0) {
@@ -75,11 +87,45 @@ export function CharacterDistribution({ analysis }: CharacterDistributionProps)
         <div className="grid grid-cols-2 gap-2 mt-4">
           {Object.entries(analysis.charDistribution).map(([key, value]) => (
             <div key={key} className="flex justify-between text-xs">
-              <span className="text-muted-foreground capitalize">{key}:</span>
+              <span className="text-muted-foreground">{DISTRIBUTION_LABELS[key]}:</span>
               <span className="font-medium">{value}</span>
             </div>
           ))}
         </div>
+
+        <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Scripts:</span>
+            <span className="font-medium">
+              {unicode.scripts.map(s => `${s.script} ${s.count}`).join(' · ')}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Characters / code points:</span>
+            <span className="font-medium">{unicode.graphemes} / {unicode.codePoints}</span>
+          </div>
+          {unicode.normalized && (
+            <p className="text-muted-foreground">
+              Normalised (NFKC) before pattern matching.
+            </p>
+          )}
+          {unicode.confusables.length > 0 && (
+            <p className="flex items-start gap-1 text-warning">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              Lookalike characters: {unicode.confusables
+                .map(c => `${c.script} ${c.char} as ${c.looksLike} (char ${c.position})`)
+                .join(', ')}
+            </p>
+          )}
+          {unicode.invisibles.length > 0 && (
+            <p className="flex items-start gap-1 text-warning">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              Invisible characters: {unicode.invisibles
+                .map(c => `${c.codePoint} (char ${c.position})`)
+                .join(', ')}
+            </p>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
@@ -9,10 +9,15 @@ interface EntropyChartProps {
 export function EntropyChart({ analysis }: EntropyChartProps) {
   const data = [
     {
-      name: 'Entropy',
+      name: 'Brute-force',
       value: Math.round(analysis.entropy),
       reference: 40, // Minimum recommended entropy
     },
+    {
+      name: 'Pattern-aware',
+      value: Math.round(analysis.effectiveEntropy),
+      reference: 40,
+    },
   ];
 
   const getEntropyLevel = (entropy: number) => {
@@ -23,15 +28,15 @@ export function EntropyChart({ analysis }: EntropyChartProps) {
     return { label: 'Excellent', color: '#16a34a' };
   };
 
-  const level = getEntropyLevel(analysis.entropy);
+  const level = getEntropyLevel(analysis.effectiveEntropy);
 
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="text-base font-semibold flex items-center justify-between">
-          <span>Shannon Entropy</span>
+          <span>Entropy</span>
           <span className="text-sm font-normal" style={{ color: level.color }}>
-            {Math.round(analysis.entropy)} bits ({level.label})
+            {Math.round(analysis.effectiveEntropy)} bits effective ({level.label})
           </span>
         </CardTitle>
       </CardHeader>
@@ -69,8 +74,8 @@ export function EntropyChart({ analysis }: EntropyChartProps) {
           </BarChart>
         </ResponsiveContainer>
         <p className="text-xs text-muted-foreground mt-2">
-          Higher entropy indicates greater unpredictability and security.
-          Aim for at least 40 bits for a secure password.
+          Brute-force entropy is length × log2(character pool). Pattern-aware entropy prices
+          detected patterns at their guess counts instead. Aim for at least 40 effective bits.
         </p>
       </CardContent>
     </Card>
@@ -1,5 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart, ReferenceArea } from 'recharts';
 import { PasswordAnalysis } from '@/utils/passwordAnalysis';
 import { TrendingUp } from 'lucide-react';
 
@@ -11,7 +11,7 @@ export function EntropyGrowthChart({ analysis }: EntropyGrowthChartProps) {
   const data = analysis.entropyPerCharacter;
   
   const getGradientColor = () => {
-    const finalEntropy = data[data.length - 1]?.entropy || 0;
+    const finalEntropy = data[data.length - 1]?.effectiveEntropy || 0;
     if (finalEntropy < 28) return '#ef4444';
     if (finalEntropy < 36) return '#f97316';
     if (finalEntropy < 60) return '#eab308';
@@ -55,12 +55,32 @@ export function EntropyGrowthChart({ analysis }: EntropyGrowthChartProps) {
                     border: '1px solid hsl(var(--border))',
                     borderRadius: '8px',
                   }}
-                  formatter={(value: number) => [`${value.toFixed(2)} bits`, 'Entropy']}
+                  formatter={(value: number, name: string) => [
+                    `${value.toFixed(2)} bits`,
+                    name === 'entropy' ? 'Brute-force' : 'Pattern-aware',
+                  ]}
                   labelFormatter={(label) => `Character ${label}`}
                 />
+                {analysis.matches.map((match, index) => (
+                  <ReferenceArea
+                    key={index}
+                    x1={match.start + 1}
+                    x2={match.end}
+                    fill="hsl(var(--warning))"
+                    fillOpacity={0.1}
+                  />
+                ))}
                 <Area
                   type="monotone"
                   dataKey="entropy"
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeWidth={1}
+                  strokeDasharray="4 4"
+                  fill="none"
+                />
+                <Area
+                  type="monotone"
+                  dataKey="effectiveEntropy"
                   stroke={getGradientColor()}
                   strokeWidth={2}
                   fill="url(#entropyGradient)"
@@ -70,22 +90,23 @@ export function EntropyGrowthChart({ analysis }: EntropyGrowthChartProps) {
             <div className="mt-4 grid grid-cols-3 gap-3 text-xs">
               <div className="p-2 rounded bg-muted/50">
                 <p className="text-muted-foreground">Start</p>
-                <p className="font-semibold text-foreground">{data[0]?.entropy.toFixed(1)} bits</p>
+                <p className="font-semibold text-foreground">{data[0]?.effectiveEntropy.toFixed(1)} bits</p>
               </div>
               <div className="p-2 rounded bg-muted/50">
                 <p className="text-muted-foreground">Current</p>
-                <p className="font-semibold text-foreground">{data[data.length - 1]?.entropy.toFixed(1)} bits</p>
+                <p className="font-semibold text-foreground">{data[data.length - 1]?.effectiveEntropy.toFixed(1)} bits</p>
               </div>
               <div className="p-2 rounded bg-muted/50">
                 <p className="text-muted-foreground">Avg/Char</p>
                 <p className="font-semibold text-foreground">
-                  {(data[data.length - 1]?.entropy / data.length).toFixed(2)} bits
+                  {(data[data.length - 1]?.effectiveEntropy / data.length).toFixed(2)} bits
                 </p>
               </div>
             </div>
             <p className="text-xs text-muted-foreground mt-3">
-              Each character should ideally add 3-5 bits of entropy. A steep upward curve indicates 
-              good unpredictability, while plateaus suggest predictable patterns.
+              The solid line is pattern-aware entropy and the dashed line is brute-force entropy. Each
+              character should ideally add 3-5 bits; plateaus suggest predictable patterns. Shaded ranges
+              mark detected patterns.
             </p>
           </>
         ) : (
@@ -0,0 +1,78 @@
+import { Download, FileJson, FileText, FileType, Image } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob, downloadText } from '@/utils/download';
+import { PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { PolicyResult } from '@/utils/policy';
+import { reportToPng } from '@/utils/reportCard';
+import {
+  buildRedactedReport,
+  ExportFormat,
+  reportFileName,
+  reportToJson,
+  reportToMarkdown,
+  reportToPdf,
+} from '@/utils/reportExport';
+
+interface ExportMenuProps {
+  analysis: PasswordAnalysis;
+  policy?: PolicyResult;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: typeof Download }[] = [
+  { format: 'json', label: 'JSON', icon: FileJson },
+  { format: 'markdown', label: 'Markdown', icon: FileText },
+  { format: 'pdf', label: 'Printable PDF', icon: FileType },
+  { format: 'png', label: 'PNG summary card', icon: Image },
+];
+
+/** Downloads a redacted report of the current analysis; every format is built in the browser. */
+export function ExportMenu({ analysis, policy, disabled }: ExportMenuProps) {
+  const { toast } = useToast();
+
+  const exportAs = async (format: ExportFormat) => {
+    const report = buildRedactedReport(analysis, policy);
+    const filename = reportFileName(report, format);
+    try {
+      if (format === 'json') downloadText(filename, reportToJson(report), 'application/json');
+      if (format === 'markdown') downloadText(filename, reportToMarkdown(report), 'text/markdown');
+      if (format === 'pdf') downloadBlob(filename, new Blob([reportToPdf(report)], { type: 'application/pdf' }));
+      if (format === 'png') downloadBlob(filename, await reportToPng(report));
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({ title: 'Export Failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          Export report
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Reports leave out the password, the words it matched and exact guess and breach counts
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onSelect={() => exportAs(format)}>
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertCircle, CheckCircle, Info } from 'lucide-react';
-import { PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { PasswordAnalysis, PATTERN_LABELS } from '@/utils/passwordAnalysis';
+import { DICTIONARY_LABELS } from '@/utils/dictionary';
 
 interface FeedbackListProps {
   analysis: PasswordAnalysis;
@@ -28,6 +29,51 @@ export function FeedbackList({ analysis }: FeedbackListProps) {
             </li>
           ))}
         </ul>
+
+        {analysis.matches.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-border space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Detected Patterns</h4>
+            {/* One cell per character of the matching form; highlighted cells are covered by a pattern */}
+            <div className="flex gap-0.5">
+              {Array.from({ length: analysis.unicode.matchingLength }, (_, i) => (
+                <div
+                  key={i}
+                  className={`h-2 flex-1 rounded-sm ${
+                    analysis.matches.some(m => i >= m.start && i < m.end) ? 'bg-warning' : 'bg-muted'
+                  }`}
+                />
+              ))}
+            </div>
+            <ul className="space-y-1">
+              {analysis.matches.map((match, index) => (
+                <li key={index} className="flex justify-between text-xs">
+                  <span className="text-foreground">
+                    {PATTERN_LABELS[match.kind]}
+                    {match.kind === 'keyboard' && (
+                      <span className="text-muted-foreground">
+                        {' '}({match.layout}, {match.end - match.start} keys, {match.turns} turns)
+                      </span>
+                    )}
+                    {match.kind === 'dictionary' && (
+                      <span className="text-muted-foreground">
+                        {' '}({DICTIONARY_LABELS[match.dictionaryName] ?? match.dictionaryName}, rank {match.rank.toLocaleString()}
+                        {match.substitutions && `, l33t ${Object.entries(match.substitutions).map(([from, to]) => `${from}→${to}`).join(' ')}`})
+                      </span>
+                    )}
+                    {match.kind === 'date' && (
+                      <span className="text-muted-foreground">
+                        {' '}({match.month ? `${match.year}-${match.month}-${match.day}` : match.year})
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground font-mono">
+                    chars {match.start + 1}-{match.end} · ~{match.guesses.toLocaleString()} guesses
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,35 +1,53 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Shield, Clock, Zap } from 'lucide-react';
 import { PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { AttackerModel, HashAlgorithm } from '@/utils/attackerModel';
+import { formatGuesses } from '@/utils/format';
 
 interface HashStrengthTesterProps {
   analysis: PasswordAnalysis;
+  /** The model `analysis` was computed with; edits go back through `onModelChange`. */
+  model: AttackerModel;
+  onModelChange: (model: AttackerModel) => void;
 }
 
-export function HashStrengthTester({ analysis }: HashStrengthTesterProps) {
+export function HashStrengthTester({ analysis, model, onModelChange }: HashStrengthTesterProps) {
+  const hashStrength = analysis.hashStrength;
+
+  const setRate = (algorithm: HashAlgorithm, rate: number) =>
+    onModelChange({ ...model, guessesPerSecondPerDevice: { ...model.guessesPerSecondPerDevice, [algorithm]: rate } });
+
   const hashAlgorithms = [
     {
+      algorithm: 'bcrypt' as const,
       name: 'Bcrypt',
       icon: Shield,
-      description: 'Industry standard, very secure',
+      description: 'Industry standard, very secure (cost 10)',
       color: 'text-success',
-      data: analysis.hashStrength.bcrypt,
+      data: hashStrength.bcrypt,
+      perDevice: model.guessesPerSecondPerDevice.bcrypt,
       security: 'High Security',
     },
     {
+      algorithm: 'argon2' as const,
       name: 'Argon2',
       icon: Shield,
-      description: 'Most secure, recommended',
+      description: 'Most secure, recommended (Argon2id, 64 MiB, t=3)',
       color: 'text-success',
-      data: analysis.hashStrength.argon2,
+      data: hashStrength.argon2,
+      perDevice: model.guessesPerSecondPerDevice.argon2,
       security: 'Highest Security',
     },
     {
+      algorithm: 'sha256' as const,
       name: 'SHA-256',
       icon: Zap,
-      description: 'Fast but less secure',
+      description: 'Fast but less secure (unsalted)',
       color: 'text-warning',
-      data: analysis.hashStrength.sha256,
+      data: hashStrength.sha256,
+      perDevice: model.guessesPerSecondPerDevice.sha256,
       security: 'Lower Security',
     },
   ];
@@ -43,6 +61,22 @@ export function HashStrengthTester({ analysis }: HashStrengthTesterProps) {
         </CardTitle>
       </CardHeader>
       <CardContent>
+        <div className="flex items-end gap-3 mb-4">
+          <div className="space-y-1">
+            <Label htmlFor="attacker-devices" className="text-xs">GPUs</Label>
+            <Input
+              id="attacker-devices"
+              type="number"
+              min={1}
+              value={model.devices}
+              onChange={(e) => onModelChange({ ...model, devices: Math.max(1, Number(e.target.value) || 1) })}
+              className="h-8 w-24"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground pb-1">
+            Cracking {analysis.length ? formatGuesses(analysis.attackGuesses) : 'N/A'} guesses
+          </p>
+        </div>
         <div className="space-y-4">
           {hashAlgorithms.map((algo) => (
             <div key={algo.name} className="p-3 rounded-lg border border-border bg-muted/30">
@@ -67,6 +101,19 @@ export function HashStrengthTester({ analysis }: HashStrengthTesterProps) {
                       <span className="text-muted-foreground">Speed:</span>
                       <p className="font-mono font-semibold text-foreground">{algo.data.guessesPerSecond}</p>
                     </div>
+                    <div className="col-span-2 flex items-center gap-2">
+                      <Label htmlFor={`attacker-rate-${algo.algorithm}`} className="text-xs text-muted-foreground font-normal">
+                        Guesses/s per GPU
+                      </Label>
+                      <Input
+                        id={`attacker-rate-${algo.algorithm}`}
+                        type="number"
+                        min={1}
+                        value={algo.perDevice}
+                        onChange={(e) => setRate(algo.algorithm, Math.max(1, Number(e.target.value) || 1))}
+                        className="h-7 w-36 font-mono text-xs"
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -74,8 +121,9 @@ export function HashStrengthTester({ analysis }: HashStrengthTesterProps) {
           ))}
         </div>
         <p className="text-xs text-muted-foreground mt-4">
-          Different hashing algorithms provide varying levels of protection. Slower algorithms like Bcrypt and Argon2 
-          are more resistant to brute-force attacks.
+          Crack times assume an offline attacker with these GPUs who needs the fewest guesses
+          any model predicts; the Bcrypt time is the one shown under the strength meter. Slower
+          algorithms like Bcrypt and Argon2 are more resistant to brute-force attacks.
         </p>
       </CardContent>
     </Card>
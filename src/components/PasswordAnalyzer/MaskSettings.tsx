@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw, Save, Trash2 } from 'lucide-react';
+import {
+  generateFromMask,
+  loadSavedMasks,
+  MASK_PLACEHOLDERS,
+  MASK_PRESETS,
+  MaskPosition,
+  MaskPreset,
+  saveMasks,
+} from '@/utils/mask';
+
+interface MaskSettingsProps {
+  mask: string;
+  onMaskChange: (mask: string) => void;
+  /** The parsed mask, empty when it has an error. */
+  positions: MaskPosition[];
+  error: string | null;
+}
+
+export function MaskSettings({ mask, onMaskChange, positions, error }: MaskSettingsProps) {
+  const [saved, setSaved] = useState<MaskPreset[]>(loadSavedMasks);
+  const [name, setName] = useState('');
+  const [preview, setPreview] = useState('');
+
+  // A fresh sample whenever the mask changes
+  useEffect(() => {
+    setPreview(positions.length > 0 ? generateFromMask(positions) : '');
+  }, [positions]);
+
+  const presets = [...MASK_PRESETS, ...saved];
+  const selected = presets.find(preset => preset.mask === mask);
+  const savedMatch = saved.find(preset => preset.mask === mask);
+
+  const updateSaved = (next: MaskPreset[]) => {
+    setSaved(next);
+    saveMasks(next);
+  };
+
+  const savePreset = () => {
+    const trimmed = name.trim();
+    if (!trimmed || error) return;
+    updateSaved([...saved.filter(preset => preset.name !== trimmed), { name: trimmed, mask }]);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Preset</Label>
+          <Select value={selected?.name ?? ''} onValueChange={(value) => onMaskChange(presets.find(p => p.name === value).mask)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Custom mask" />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map(preset => (
+                <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mask" className="text-xs">Mask</Label>
+          <Input
+            id="mask"
+            value={mask}
+            onChange={(e) => onMaskChange(e.target.value)}
+            className="font-mono"
+            spellCheck={false}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : positions.length > 0 && (
+        <div className="flex items-center justify-between gap-2 text-xs p-2 rounded bg-muted/50">
+          <span className="text-muted-foreground">Preview</span>
+          <span className="font-mono text-foreground break-all">{preview}</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => setPreview(generateFromMask(positions))}>
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+          placeholder="Preset name"
+          className="h-9"
+        />
+        <Button variant="outline" size="sm" onClick={savePreset} disabled={!name.trim() || Boolean(error)}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+        {savedMatch && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateSaved(saved.filter(preset => preset !== savedMatch))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {Object.entries(MASK_PLACEHOLDERS).map(([placeholder, { label }]) => (
+          <div key={placeholder}>
+            <span className="font-mono text-foreground">{placeholder}</span> {label}
+          </div>
+        ))}
+        <div><span className="font-mono text-foreground">[a-f]</span> custom set</div>
+        <div><span className="font-mono text-foreground">{'{4}'}</span> repeat previous</div>
+        <div><span className="font-mono text-foreground">\x</span> literal x</div>
+      </div>
+    </div>
+  );
+}
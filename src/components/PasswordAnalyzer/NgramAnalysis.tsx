@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Activity, AlertTriangle, CheckCircle } from 'lucide-react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { PasswordAnalysis } from '@/utils/passwordAnalysis';
 import { Progress } from '@/components/ui/progress';
 
@@ -7,105 +8,149 @@ interface NgramAnalysisProps {
   analysis: PasswordAnalysis;
 }
 
+// Uniformly random printable ASCII carries log2(95) ≈ 6.6 bits per character
+const MAX_SURPRISAL = Math.log2(95);
+const HIGHLIGHTED_CHARACTERS = 3;
+
 export function NgramAnalysis({ analysis }: NgramAnalysisProps) {
-  const likelihood = analysis.ngramLikelihood;
-  
-  const getLikelihoodLevel = () => {
-    if (likelihood < 20) return { 
-      label: 'Excellent', 
-      color: 'text-success', 
+  const markov = analysis.markov;
+  const surprisal = markov.averageSurprisal;
+
+  const getPredictabilityLevel = () => {
+    if (surprisal >= 4.5) return {
+      label: 'Excellent',
+      color: 'text-success',
       icon: CheckCircle,
-      description: 'Very low predictability from leaked password patterns',
+      description: 'Characters are hard to predict from leaked password statistics',
       bgColor: 'bg-success/10'
     };
-    if (likelihood < 40) return { 
-      label: 'Good', 
-      color: 'text-success', 
+    if (surprisal >= 3.5) return {
+      label: 'Good',
+      color: 'text-success',
       icon: CheckCircle,
-      description: 'Low predictability, some common patterns detected',
+      description: 'Mostly unpredictable, with a few common transitions',
       bgColor: 'bg-success/10'
     };
-    if (likelihood < 60) return { 
-      label: 'Fair', 
-      color: 'text-warning', 
+    if (surprisal >= 2.5) return {
+      label: 'Fair',
+      color: 'text-warning',
       icon: Activity,
-      description: 'Moderate predictability, reduce common sequences',
+      description: 'Several characters follow common leaked-password patterns',
       bgColor: 'bg-warning/10'
     };
-    return { 
-      label: 'Poor', 
-      color: 'text-destructive', 
+    return {
+      label: 'Poor',
+      color: 'text-destructive',
       icon: AlertTriangle,
-      description: 'High predictability from common leaked password patterns',
+      description: 'Reads like a typical leaked password, character by character',
       bgColor: 'bg-destructive/10'
     };
   };
 
-  const level = getLikelihoodLevel();
+  const level = getPredictabilityLevel();
   const Icon = level.icon;
 
-  // Invert the progress so lower likelihood shows better progress
-  const invertedProgress = 100 - likelihood;
+  const lowestSurprise = new Set(
+    [...markov.perCharacter]
+      .sort((a, b) => a.surprisal - b.surprisal)
+      .slice(0, HIGHLIGHTED_CHARACTERS)
+      .map(c => c.position)
+  );
 
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="text-base font-semibold flex items-center gap-2">
           <Activity className="h-4 w-4" />
-          N-gram Frequency Analysis
+          N-gram Markov Analysis
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <div className={`p-4 rounded-lg ${level.bgColor} border border-border mb-4`}>
-          <div className="flex items-center gap-3 mb-3">
-            <Icon className={`h-5 w-5 ${level.color}`} />
-            <div className="flex-1">
-              <div className="flex items-center justify-between mb-1">
-                <span className="font-semibold text-foreground">{level.label}</span>
-                <span className={`text-sm font-mono ${level.color}`}>
-                  {likelihood.toFixed(1)}% match
-                </span>
+        {!markov.available ? (
+          <div className="flex items-center justify-center h-[200px] text-muted-foreground text-sm">
+            {analysis.length ? 'Loading n-gram model...' : 'Enter a password to see n-gram analysis'}
+          </div>
+        ) : (
+          <>
+            <div className={`p-4 rounded-lg ${level.bgColor} border border-border mb-4`}>
+              <div className="flex items-center gap-3 mb-3">
+                <Icon className={`h-5 w-5 ${level.color}`} />
+                <div className="flex-1">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-semibold text-foreground">{level.label}</span>
+                    <span className={`text-sm font-mono ${level.color}`}>
+                      {surprisal.toFixed(2)} bits/char
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, (surprisal / MAX_SURPRISAL) * 100)} className="h-2" />
+                </div>
               </div>
-              <Progress value={invertedProgress} className="h-2" />
+              <p className="text-xs text-muted-foreground">{level.description}</p>
             </div>
-          </div>
-          <p className="text-xs text-muted-foreground">{level.description}</p>
-        </div>
 
-        <div className="space-y-3">
-          <div>
-            <h4 className="text-sm font-semibold text-foreground mb-2">What is N-gram Analysis?</h4>
-            <p className="text-xs text-muted-foreground">
-              This analyzes 2-character and 3-character sequences in your password against patterns 
-              commonly found in leaked password databases. Lower scores indicate more unique patterns.
+            <ResponsiveContainer width="100%" height={120}>
+              <BarChart data={markov.perCharacter}>
+                <XAxis dataKey="position" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value: number) => [`${value.toFixed(2)} bits`, 'Surprisal']}
+                  labelFormatter={(label) => `Character ${label}`}
+                />
+                <Bar dataKey="surprisal" radius={[4, 4, 0, 0]}>
+                  {markov.perCharacter.map(c => (
+                    <Cell
+                      key={c.position}
+                      fill={lowestSurprise.has(c.position) ? 'hsl(var(--destructive))' : 'hsl(var(--primary))'}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground mt-1 mb-3">
+              Surprisal per character; the {HIGHLIGHTED_CHARACTERS} most predictable are highlighted.
             </p>
-          </div>
 
-          <div className="grid grid-cols-2 gap-2 text-xs">
-            <div className="p-2 rounded bg-muted/50">
-              <p className="text-muted-foreground">Pattern Uniqueness</p>
-              <p className="font-semibold text-foreground">
-                {likelihood < 30 ? 'High' : likelihood < 60 ? 'Medium' : 'Low'}
-              </p>
-            </div>
-            <div className="p-2 rounded bg-muted/50">
-              <p className="text-muted-foreground">Real-world Risk</p>
-              <p className="font-semibold text-foreground">
-                {likelihood < 30 ? 'Low' : likelihood < 60 ? 'Medium' : 'High'}
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="p-2 rounded bg-muted/50">
+                  <p className="text-muted-foreground">Total Surprisal</p>
+                  <p className="font-semibold text-foreground">{markov.totalBits.toFixed(1)} bits</p>
+                </div>
+                <div className="p-2 rounded bg-muted/50">
+                  <p className="text-muted-foreground">Markov Guesses</p>
+                  <p className="font-semibold text-foreground">~10^{Math.log10(markov.guesses).toFixed(1)}</p>
+                </div>
+              </div>
+
+              {markov.predictableTransitions.length > 0 && (
+                <div className="pt-2 border-t border-border">
+                  <h5 className="text-xs font-semibold text-foreground mb-1">Most Predictable Transitions:</h5>
+                  <ul className="text-xs text-muted-foreground space-y-1">
+                    {markov.predictableTransitions.map(t => (
+                      <li key={t.position} className="flex justify-between">
+                        <span className="font-mono">
+                          {t.context} → {t.char}
+                        </span>
+                        <span>{(t.probability * 100).toFixed(1)}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                An order-{markov.order} character model trained on leaked passwords estimates how likely
+                each character is given the ones before it. Low surprisal means an attacker's model
+                would guess that character early.
               </p>
             </div>
-          </div>
-
-          <div className="pt-2 border-t border-border">
-            <h5 className="text-xs font-semibold text-foreground mb-1">Common Patterns to Avoid:</h5>
-            <ul className="text-xs text-muted-foreground space-y-1">
-              <li>• Sequential numbers: 123, 234, 789</li>
-              <li>• Alphabet sequences: abc, def, xyz</li>
-              <li>• Common words: the, and, ing</li>
-              <li>• Repeated pairs: aa, 11, !!</li>
-            </ul>
-          </div>
-        </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { BREACH_HASH_LABELS, BreachHashType, readBreachIndex } from '@/utils/breachIndex';
+import { deleteBreachIndex, saveBreachIndex, StoredBreachIndex } from '@/utils/breachStore';
+import { getAnalysisClient } from '@/workers/analysisClient';
+
+interface OfflineBreachDataProps {
+  indexes: StoredBreachIndex[];
+  /** Takes an updater, since one import may save several indexes before a re-render. */
+  onChange: (update: (indexes: StoredBreachIndex[]) => StoredBreachIndex[]) => void;
+}
+
+const INDEX_SIGNATURE = 'SPSB';
+
+/**
+ * Imports Pwned Passwords range files (or a prebuilt index from `strong-pass-scanner
+ * breach-index`) into IndexedDB, so breach checks work without a network.
+ */
+export function OfflineBreachData({ indexes, onChange }: OfflineBreachDataProps) {
+  const [hashType, setHashType] = useState<BreachHashType>('sha1');
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const importFiles = async (files: File[]) => {
+    setImporting(true);
+    // Indexes saved by this import, which `indexes` will not show until the next render
+    const saved = new Map<BreachHashType, StoredBreachIndex>();
+    const replace = (stored: StoredBreachIndex) => {
+      saved.set(stored.index.hashType, stored);
+      onChange(current => [...current.filter(entry => entry.index.hashType !== stored.index.hashType), stored]);
+    };
+    try {
+      const rangeFiles: File[] = [];
+      for (const file of files) {
+        const signature = new Uint8Array(await file.slice(0, INDEX_SIGNATURE.length).arrayBuffer());
+        if (new TextDecoder().decode(signature) === INDEX_SIGNATURE) {
+          // A prebuilt index replaces the stored one of its hash type
+          replace(await saveBreachIndex(readBreachIndex(new Uint8Array(await file.arrayBuffer()))));
+        } else {
+          rangeFiles.push(file);
+        }
+      }
+      if (rangeFiles.length > 0) {
+        // Range files are decoded and sorted in the analysis worker, off the main thread
+        const existing = (saved.get(hashType) ?? indexes.find(entry => entry.index.hashType === hashType))?.index;
+        replace(await saveBreachIndex(await getAnalysisClient().buildBreachIndex(hashType, rangeFiles, existing)));
+      }
+      toast({ title: 'Breach data imported', description: `${files.length.toLocaleString()} file(s) added.` });
+    } catch (error) {
+      toast({ title: 'Import failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const remove = async (type: BreachHashType) => {
+    try {
+      await deleteBreachIndex(type);
+      onChange(current => current.filter(entry => entry.index.hashType !== type));
+    } catch (error) {
+      toast({ title: 'Delete failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {indexes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No breach data imported yet.</p>
+      ) : (
+        indexes.map(({ index, importedAt }) => (
+          <div key={index.hashType} className="flex items-center justify-between gap-2 p-2 rounded border border-border">
+            <div className="text-xs">
+              <p className="font-medium text-foreground">
+                {BREACH_HASH_LABELS[index.hashType]}: {index.size.toLocaleString()} hashes
+              </p>
+              <p className="text-muted-foreground">
+                {index.occurrences.toLocaleString()} occurrences, imported {importedAt.toLocaleDateString()}
+              </p>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => remove(index.hashType)} aria-label="Delete breach data">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      <div className="grid gap-2 grid-cols-[8rem_1fr]">
+        <div className="space-y-1">
+          <Label className="text-xs">Hash type</Label>
+          <Select value={hashType} onValueChange={(value) => setHashType(value as BreachHashType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BREACH_HASH_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="breach-files" className="text-xs flex items-center gap-1">
+            Range files or index
+            {importing && <Loader2 className="h-3 w-3 animate-spin" />}
+          </Label>
+          <Input
+            id="breach-files"
+            type="file"
+            multiple
+            accept=".txt,.bin,text/plain"
+            disabled={importing}
+            onChange={async (e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              if (files.length > 0) await importFiles(files);
+            }}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Accepts files from the Pwned Passwords downloader (named by their 5-character prefix),
+        lists of full <span className="font-mono">HASH:COUNT</span> lines, or a subset of either.
+        New files are merged into what is already stored.
+      </p>
+    </div>
+  );
+}
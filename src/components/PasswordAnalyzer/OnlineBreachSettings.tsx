@@ -0,0 +1,56 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BREACH_HASH_LABELS, BreachHashType } from '@/utils/breachIndex';
+import { BreachSettings, DEFAULT_RANGE_ENDPOINT } from '@/utils/breachProvider';
+
+interface OnlineBreachSettingsProps {
+  settings: BreachSettings;
+  onChange: (settings: BreachSettings) => void;
+}
+
+export function OnlineBreachSettings({ settings, onChange }: OnlineBreachSettingsProps) {
+  const update = (patch: Partial<BreachSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-2 grid-cols-[1fr_8rem]">
+        <div className="space-y-1">
+          <Label htmlFor="breach-endpoint" className="text-xs">Range endpoint</Label>
+          <Input
+            id="breach-endpoint"
+            value={settings.endpoint}
+            onChange={(e) => update({ endpoint: e.target.value })}
+            onBlur={() => !settings.endpoint.trim() && update({ endpoint: DEFAULT_RANGE_ENDPOINT })}
+            placeholder={DEFAULT_RANGE_ENDPOINT}
+            className="font-mono text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Hash type</Label>
+          <Select value={settings.hashType} onValueChange={(value) => update({ hashType: value as BreachHashType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BREACH_HASH_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="breach-padding"
+          checked={settings.padding}
+          onCheckedChange={(checked) => update({ padding: checked as boolean })}
+        />
+        <Label htmlFor="breach-padding" className="text-sm cursor-pointer">
+          Pad responses (Add-Padding), so their size does not reveal the range
+        </Label>
+      </div>
+    </div>
+  );
+}
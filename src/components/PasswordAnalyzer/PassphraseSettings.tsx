@@ -0,0 +1,141 @@
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Capitalisation, PassphraseOptions, WORDLIST_LABELS, WordlistName } from '@/utils/passphrase';
+
+export type WordlistChoice = WordlistName | 'custom';
+
+interface PassphraseSettingsProps {
+  options: PassphraseOptions;
+  onOptionsChange: (options: PassphraseOptions) => void;
+  wordlist: WordlistChoice;
+  onWordlistChange: (wordlist: WordlistChoice) => void;
+  /** Called with the text of an uploaded word list. */
+  onCustomWordlist: (text: string) => void;
+  listSize: number;
+}
+
+const CAPITALISATION_LABELS: Record<Capitalisation, string> = {
+  lower: 'lowercase',
+  upper: 'UPPERCASE',
+  title: 'Title Case',
+  random: 'Random per word',
+};
+
+export function PassphraseSettings({
+  options,
+  onOptionsChange,
+  wordlist,
+  onWordlistChange,
+  onCustomWordlist,
+  listSize,
+}: PassphraseSettingsProps) {
+  const update = (changes: Partial<PassphraseOptions>) => onOptionsChange({ ...options, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Words</Label>
+          <span className="text-sm font-medium text-foreground">{options.wordCount}</span>
+        </div>
+        <Slider
+          value={[options.wordCount]}
+          onValueChange={([wordCount]) => update({ wordCount })}
+          min={3}
+          max={12}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Word list</Label>
+          <Select value={wordlist} onValueChange={(value) => onWordlistChange(value as WordlistChoice)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WORDLIST_LABELS).map(([name, label]) => (
+                <SelectItem key={name} value={name}>{label}</SelectItem>
+              ))}
+              <SelectItem value="custom">Custom list...</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Capitalisation</Label>
+          <Select
+            value={options.capitalisation}
+            onValueChange={(value) => update({ capitalisation: value as Capitalisation })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CAPITALISATION_LABELS).map(([style, label]) => (
+                <SelectItem key={style} value={style}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {wordlist === 'custom' && (
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="custom-wordlist" className="text-xs">
+              Word list file (one word per line{listSize > 0 && `, ${listSize.toLocaleString()} loaded`})
+            </Label>
+            <Input
+              id="custom-wordlist"
+              type="file"
+              accept=".txt,text/plain"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) onCustomWordlist(await file.text());
+              }}
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="separator" className="text-xs">Separator</Label>
+          <Input
+            id="separator"
+            value={options.separator}
+            onChange={(e) => update({ separator: e.target.value })}
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="passphrase-symbols" className="text-xs">Symbols to insert</Label>
+          <Input
+            id="passphrase-symbols"
+            value={options.symbols}
+            onChange={(e) => update({ symbols: e.target.value })}
+            className="font-mono"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-6">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="insert-digit"
+            checked={options.includeDigit}
+            onCheckedChange={(checked) => update({ includeDigit: checked as boolean })}
+          />
+          <Label htmlFor="insert-digit" className="text-sm cursor-pointer">Insert a digit</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="insert-symbol"
+            checked={options.includeSymbol}
+            onCheckedChange={(checked) => update({ includeSymbol: checked as boolean })}
+          />
+          <Label htmlFor="insert-symbol" className="text-sm cursor-pointer">Insert a symbol</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,47 +1,182 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Copy, RefreshCw, Sparkles } from 'lucide-react';
-import { analyzePassword, PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { PasswordAnalysis } from '@/utils/passwordAnalysis';
+import {
+  DEFAULT_GENERATION_POLICY,
+  GenerationPolicy,
+  GenerationSpace,
+  GeneratorClass,
+  MAX_CLASS_MINIMUM,
+} from '@/utils/generator';
+import { generateFromMask, MASK_PRESETS, maskSpace, parseMask } from '@/utils/mask';
+import {
+  DEFAULT_PASSPHRASE_OPTIONS,
+  generatePassphrase,
+  loadWordlist,
+  parseWordlist,
+  PassphraseOptions,
+  passphraseEntropy,
+} from '@/utils/passphrase';
+import {
+  DEFAULT_PRONOUNCEABLE_OPTIONS,
+  generatePronounceable,
+  PronounceableOptions,
+  pronounceableSpace,
+} from '@/utils/pronounceable';
+import { ENTROPY_SOURCE } from '@/utils/random';
+import { MaskSettings } from './MaskSettings';
+import { PassphraseSettings, WordlistChoice } from './PassphraseSettings';
+import { PronounceableSettings } from './PronounceableSettings';
+import { getAnalysisClient } from '@/workers/analysisClient';
 import { useToast } from '@/hooks/use-toast';
 
+type GeneratorMode = 'password' | 'passphrase' | 'pronounceable' | 'mask';
+
 interface PasswordGeneratorProps {
   onPasswordGenerated: (password: string) => void;
 }
 
+/** Pause after a policy edit before its space is counted again. */
+const SPACE_DELAY_MS = 300;
+
+interface SpaceState extends GenerationSpace {
+  error: string | null;
+  /** A count for the current policy is waiting or running in the worker. */
+  pending: boolean;
+}
+
+const PENDING_SPACE: SpaceState = { alphabetSize: 0, size: 0n, entropy: 0, error: null, pending: true };
+
+const CLASS_OPTIONS: { key: GeneratorClass; label: string }[] = [
+  { key: 'uppercase', label: 'Uppercase Letters (A-Z)' },
+  { key: 'lowercase', label: 'Lowercase Letters (a-z)' },
+  { key: 'digits', label: 'Numbers (0-9)' },
+  { key: 'symbols', label: 'Symbols' },
+];
+
 export function PasswordGenerator({ onPasswordGenerated }: PasswordGeneratorProps) {
-  const [length, setLength] = useState([16]);
-  const [includeUppercase, setIncludeUppercase] = useState(true);
-  const [includeLowercase, setIncludeLowercase] = useState(true);
-  const [includeNumbers, setIncludeNumbers] = useState(true);
-  const [includeSymbols, setIncludeSymbols] = useState(true);
+  const [policy, setPolicy] = useState<GenerationPolicy>(DEFAULT_GENERATION_POLICY);
+  const [forbidden, setForbidden] = useState('');
+  const [mode, setMode] = useState<GeneratorMode>('password');
+  const [pronounceableOptions, setPronounceableOptions] = useState<PronounceableOptions>(DEFAULT_PRONOUNCEABLE_OPTIONS);
+  const [mask, setMask] = useState(MASK_PRESETS[0].mask);
+  const [passphraseOptions, setPassphraseOptions] = useState<PassphraseOptions>(DEFAULT_PASSPHRASE_OPTIONS);
+  const [wordlist, setWordlist] = useState<WordlistChoice>('eff-long');
+  const [words, setWords] = useState<string[]>([]);
   const [generatedPassword, setGeneratedPassword] = useState('');
+  // Entropy of the space the password was drawn from, known exactly at generation time
+  const [exactEntropy, setExactEntropy] = useState(0);
   const [analysis, setAnalysis] = useState<PasswordAnalysis | null>(null);
+  const [space, setSpace] = useState<SpaceState>(PENDING_SPACE);
   const { toast } = useToast();
 
-  const generatePassword = () => {
-    let chars = '';
-    if (includeUppercase) chars += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    if (includeLowercase) chars += 'abcdefghijklmnopqrstuvwxyz';
-    if (includeNumbers) chars += '0123456789';
-    if (includeSymbols) chars += '!@#$%^&*';
+  useEffect(() => {
+    if (wordlist === 'custom') {
+      setWords([]);
+      return;
+    }
+    let cancelled = false;
+    loadWordlist(wordlist)
+      .then(list => !cancelled && setWords(list))
+      .catch(() => {
+        if (cancelled) return;
+        setWords([]);
+        toast({ title: "Error", description: "Could not load the word list", variant: "destructive" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [wordlist, toast]);
+
+  const update = (changes: Partial<GenerationPolicy>) => setPolicy(current => ({ ...current, ...changes }));
+
+  const setClassEnabled = (key: GeneratorClass, enabled: boolean) => {
+    const minCounts = { ...policy.minCounts };
+    if (enabled) minCounts[key] = 1;
+    else delete minCounts[key];
+    update({ minCounts });
+  };
 
-    if (chars === '') {
+  const setClassMinimum = (key: GeneratorClass, value: string) => {
+    const minimum = Math.min(MAX_CLASS_MINIMUM, Math.max(0, parseInt(value, 10) || 0));
+    update({ minCounts: { ...policy.minCounts, [key]: minimum } });
+  };
+
+  // Counting runs in the worker and can take seconds, so it waits for a pause in editing
+  useEffect(() => {
+    const controller = new AbortController();
+    setSpace(current => ({ ...current, pending: true }));
+    const timer = setTimeout(() => {
+      getAnalysisClient()
+        .describeSpace(policy, controller.signal)
+        .then(counted => setSpace({ ...counted, error: null, pending: false }))
+        .catch(error => {
+          // Policies too large to count
+          if (!controller.signal.aborted) setSpace({ ...PENDING_SPACE, error: (error as Error).message, pending: false });
+        });
+    }, SPACE_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [policy]);
+  const syllableSpace = useMemo(() => pronounceableSpace(pronounceableOptions), [pronounceableOptions]);
+  const parsedMask = useMemo(() => {
+    try {
+      return { positions: parseMask(mask), error: null };
+    } catch (error) {
+      return { positions: [], error: (error as Error).message };
+    }
+  }, [mask]);
+  const keyspace = maskSpace(parsedMask.positions);
+
+  // Draws from the active mode and returns the exact entropy of the space it drew from
+  const drawPassword = async (): Promise<[string, number]> => {
+    if (mode === 'passphrase') {
+      return [generatePassphrase(words, passphraseOptions), passphraseEntropy(words.length, passphraseOptions)];
+    }
+    if (mode === 'pronounceable') {
+      return [generatePronounceable(pronounceableOptions), syllableSpace.entropy];
+    }
+    if (mode === 'mask') {
+      if (parsedMask.error) throw new Error(parsedMask.error);
+      return [generateFromMask(parsedMask.positions), keyspace.entropy];
+    }
+    // Both run in the worker, which compiles the policy once for the two of them
+    const client = getAnalysisClient();
+    const [password, counted] = await Promise.all([client.generatePassword(policy), client.describeSpace(policy)]);
+    return [password, counted.entropy];
+  };
+
+  const generatePassword = async () => {
+    if (mode === 'password' && Object.keys(policy.minCounts).length === 0) {
       toast({ title: "Error", description: "Pick at least one type", variant: "destructive" });
       return;
     }
 
-    let password = '';
-    for (let i = 0; i < length[0]; i++) {
-      const randomIndex = Math.floor(Math.random() * chars.length);
-      password += chars[randomIndex];
+    let password: string;
+    let entropy: number;
+    try {
+      [password, entropy] = await drawPassword();
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return;
     }
 
     setGeneratedPassword(password);
-    setAnalysis(analyzePassword(password));
+    setExactEntropy(entropy);
+    setAnalysis(null);
+    getAnalysisClient()
+      .analyze(password, { entropyPerCharacter: false })
+      .then(setAnalysis)
+      .catch(error => console.error('Analysis error:', error));
     onPasswordGenerated(password);
   };
 
@@ -109,70 +244,167 @@ export function PasswordGenerator({ onPasswordGenerated }: PasswordGeneratorProp
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Length Slider */}
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <Label>Password Length</Label>
-            <span className="text-sm font-medium text-foreground">{length[0]}</span>
-          </div>
-          <Slider
-            value={length}
-            onValueChange={setLength}
-            min={8}
-            max={32}
-            step={1}
-            className="w-full"
-          />
-        </div>
-
-        {/* Character Options */}
-        <div className="space-y-3 pt-2">
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="uppercase"
-              checked={includeUppercase}
-              onCheckedChange={(checked) => setIncludeUppercase(checked as boolean)}
-            />
-            <Label htmlFor="uppercase" className="text-sm cursor-pointer">
-              Uppercase Letters (A-Z)
-            </Label>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="lowercase"
-              checked={includeLowercase}
-              onCheckedChange={(checked) => setIncludeLowercase(checked as boolean)}
-            />
-            <Label htmlFor="lowercase" className="text-sm cursor-pointer">
-              Lowercase Letters (a-z)
-            </Label>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="numbers"
-              checked={includeNumbers}
-              onCheckedChange={(checked) => setIncludeNumbers(checked as boolean)}
-            />
-            <Label htmlFor="numbers" className="text-sm cursor-pointer">
-              Numbers (0-9)
-            </Label>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="symbols"
-              checked={includeSymbols}
-              onCheckedChange={(checked) => setIncludeSymbols(checked as boolean)}
+        <Tabs value={mode} onValueChange={(value) => setMode(value as GeneratorMode)}>
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="password">Random</TabsTrigger>
+            <TabsTrigger value="passphrase">Passphrase</TabsTrigger>
+            <TabsTrigger value="pronounceable">Pronounceable</TabsTrigger>
+            <TabsTrigger value="mask">Mask</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="password" className="space-y-4">
+            {/* Length Slider */}
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Password Length</Label>
+                <span className="text-sm font-medium text-foreground">{policy.length}</span>
+              </div>
+              <Slider
+                value={[policy.length]}
+                onValueChange={([length]) => update({ length })}
+                min={8}
+                max={64}
+                step={1}
+                className="w-full"
+              />
+            </div>
+
+            {/* Character Options */}
+            <div className="space-y-3 pt-2">
+              {CLASS_OPTIONS.map(option => {
+                const enabled = policy.minCounts[option.key] !== undefined;
+                return (
+                  <div key={option.key} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={option.key}
+                      checked={enabled}
+                      onCheckedChange={(checked) => setClassEnabled(option.key, checked as boolean)}
+                    />
+                    <Label htmlFor={option.key} className="text-sm cursor-pointer flex-1">
+                      {option.label}
+                    </Label>
+                    {enabled && (
+                      <>
+                        <Label htmlFor={`${option.key}-min`} className="text-xs text-muted-foreground">At least</Label>
+                        <Input
+                          id={`${option.key}-min`}
+                          type="number"
+                          min={0}
+                          max={Math.min(MAX_CLASS_MINIMUM, policy.length)}
+                          value={policy.minCounts[option.key]}
+                          onChange={(e) => setClassMinimum(option.key, e.target.value)}
+                          className="h-8 w-16"
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Constraints */}
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="allowed-symbols" className="text-xs">Allowed symbols</Label>
+                <Input
+                  id="allowed-symbols"
+                  value={policy.symbols}
+                  onChange={(e) => update({ symbols: e.target.value })}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="excluded-characters" className="text-xs">Excluded characters</Label>
+                <Input
+                  id="excluded-characters"
+                  value={policy.exclude}
+                  onChange={(e) => update({ exclude: e.target.value })}
+                  placeholder="0O1lI"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="max-consecutive" className="text-xs">Max identical in a row (0 = no limit)</Label>
+                <Input
+                  id="max-consecutive"
+                  type="number"
+                  min={0}
+                  value={policy.maxConsecutive}
+                  onChange={(e) => update({ maxConsecutive: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="forbidden-substrings" className="text-xs">Forbidden substrings (comma-separated)</Label>
+                <Input
+                  id="forbidden-substrings"
+                  value={forbidden}
+                  onChange={(e) => {
+                    setForbidden(e.target.value);
+                    update({ forbiddenSubstrings: e.target.value.split(',').map(s => s.trim()).filter(Boolean) });
+                  }}
+                  placeholder="password, acme"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-between text-xs p-2 rounded bg-muted/50">
+              <span className="text-muted-foreground">Constrained space</span>
+              <span className="font-mono text-foreground">
+                {space.pending ? 'Counting…' : space.error ?? (space.size > 0n
+                  ? `${space.entropy.toFixed(1)} bits · ${space.alphabetSize} characters`
+                  : 'No password satisfies these constraints')}
+              </span>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="passphrase" className="space-y-4">
+            <PassphraseSettings
+              options={passphraseOptions}
+              onOptionsChange={setPassphraseOptions}
+              wordlist={wordlist}
+              onWordlistChange={setWordlist}
+              onCustomWordlist={(text) => setWords(parseWordlist(text))}
+              listSize={words.length}
             />
-            <Label htmlFor="symbols" className="text-sm cursor-pointer">
-              Symbols (!@#$%^&*)
-            </Label>
-          </div>
-        </div>
+            <div className="flex justify-between text-xs p-2 rounded bg-muted/50">
+              <span className="text-muted-foreground">Passphrase space</span>
+              <span className="font-mono text-foreground">
+                {words.length > 1
+                  ? `${passphraseEntropy(words.length, passphraseOptions).toFixed(1)} bits · ${words.length.toLocaleString()} words`
+                  : 'No word list loaded'}
+              </span>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="pronounceable" className="space-y-4">
+            <PronounceableSettings options={pronounceableOptions} onOptionsChange={setPronounceableOptions} />
+            <div className="flex justify-between text-xs p-2 rounded bg-muted/50">
+              <span className="text-muted-foreground">Construction space</span>
+              <span className="font-mono text-foreground">
+                {syllableSpace.size > 0n
+                  ? `${syllableSpace.entropy.toFixed(1)} bits`
+                  : 'No pronounceable password matches these settings'}
+              </span>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="mask" className="space-y-4">
+            <MaskSettings mask={mask} onMaskChange={setMask} positions={parsedMask.positions} error={parsedMask.error} />
+            <div className="flex justify-between text-xs p-2 rounded bg-muted/50">
+              <span className="text-muted-foreground">Keyspace</span>
+              <span className="font-mono text-foreground">
+                {keyspace.size > 0n
+                  ? `${keyspace.size <= BigInt(Number.MAX_SAFE_INTEGER) ? keyspace.size.toLocaleString() : `10^${(keyspace.entropy * Math.log10(2)).toFixed(1)}`} · ${keyspace.entropy.toFixed(1)} bits`
+                  : 'Enter a valid mask'}
+              </span>
+            </div>
+          </TabsContent>
+        </Tabs>
 
         {/* Generate Button */}
         <Button onClick={generatePassword} className="w-full" size="lg">
           <RefreshCw className="h-4 w-4 mr-2" />
-          Generate Password
+          {mode === 'passphrase' ? 'Generate Passphrase' : 'Generate Password'}
         </Button>
 
         {/* Generated Password Display */}
@@ -192,6 +424,21 @@ export function PasswordGenerator({ onPasswordGenerated }: PasswordGeneratorProp
               </Button>
             </div>
 
+            <p className="text-xs text-muted-foreground">Entropy source: {ENTROPY_SOURCE}</p>
+
+            {analysis && (
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="p-2 rounded bg-muted/50">
+                  <p className="text-muted-foreground">Exact entropy</p>
+                  <p className="font-semibold text-foreground">{exactEntropy.toFixed(1)} bits</p>
+                </div>
+                <div className="p-2 rounded bg-muted/50">
+                  <p className="text-muted-foreground">Analyzer estimate</p>
+                  <p className="font-semibold text-foreground">{analysis.effectiveEntropy.toFixed(1)} bits</p>
+                </div>
+              </div>
+            )}
+
             {/* Suggested Applications */}
             {analysis && (
               <div className="p-4 rounded-lg border border-border bg-card space-y-2">
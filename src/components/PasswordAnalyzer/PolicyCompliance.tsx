@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, ClipboardCheck, MinusCircle, XCircle } from 'lucide-react';
+import { PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { UserInputs } from '@/utils/userInputs';
+import { evaluatePolicy, parsePolicy, POLICY_PRESETS, PolicyResult, PolicyStatus } from '@/utils/policy';
+
+interface PolicyComplianceProps {
+  password: string;
+  analysis: PasswordAnalysis;
+  userInputs: UserInputs;
+  /** Outcome of the last breach check for this password, if any. */
+  breached?: boolean;
+  /** Called with each new evaluation, e.g. for exported reports; undefined without one. */
+  onResultChange?: (result: PolicyResult | undefined) => void;
+}
+
+const CUSTOM_POLICY = 'custom';
+
+const CUSTOM_PLACEHOLDER = `id: acme
+name: ACME Corp
+minLength: 12
+requiredClasses: [letters, digits]
+bannedWords: [acme]
+minGuesses: 1e10
+checkBreaches: true`;
+
+const STATUS_STYLES: Record<PolicyStatus, { icon: typeof CheckCircle; color: string; label: string }> = {
+  pass: { icon: CheckCircle, color: 'text-success', label: 'Compliant' },
+  fail: { icon: XCircle, color: 'text-destructive', label: 'Not compliant' },
+  skipped: { icon: MinusCircle, color: 'text-warning', label: 'Incomplete' },
+};
+
+export function PolicyCompliance({ password, analysis, userInputs, breached, onResultChange }: PolicyComplianceProps) {
+  const [policyId, setPolicyId] = useState(POLICY_PRESETS[0].id);
+  const [customText, setCustomText] = useState('');
+
+  const { result, error } = useMemo((): { result?: PolicyResult; error?: string } => {
+    if (!password) return {};
+    try {
+      const policy = policyId === CUSTOM_POLICY
+        ? parsePolicy(customText || CUSTOM_PLACEHOLDER)
+        : POLICY_PRESETS.find(p => p.id === policyId);
+      return { result: evaluatePolicy(password, policy, { userInputs, breached, analysis }) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : 'Invalid policy' };
+    }
+  }, [password, policyId, customText, userInputs, breached, analysis]);
+
+  useEffect(() => {
+    onResultChange?.(result);
+  }, [result, onResultChange]);
+
+  const overall = result && STATUS_STYLES[result.status];
+  const OverallIcon = overall?.icon;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4" />
+          Policy Compliance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select value={policyId} onValueChange={setPolicyId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {POLICY_PRESETS.map(policy => (
+              <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_POLICY}>Custom (JSON or YAML)</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {policyId === CUSTOM_POLICY && (
+          <Textarea
+            value={customText}
+            onChange={(e) => setCustomText(e.target.value)}
+            placeholder={CUSTOM_PLACEHOLDER}
+            className="font-mono text-xs min-h-[140px]"
+          />
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {!password && (
+          <p className="text-sm text-muted-foreground">Enter a password to check it against the policy</p>
+        )}
+
+        {result && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className={`flex items-center gap-2 font-semibold ${overall.color}`}>
+                <OverallIcon className="h-4 w-4" />
+                {overall.label}
+              </span>
+              {result.policy.reference && (
+                <span className="text-xs text-muted-foreground">{result.policy.reference}</span>
+              )}
+            </div>
+            {result.policy.description && (
+              <p className="text-xs text-muted-foreground">{result.policy.description}</p>
+            )}
+            <ul className="space-y-1">
+              {result.rules.map(rule => {
+                const style = STATUS_STYLES[rule.status];
+                const Icon = style.icon;
+                return (
+                  <li key={rule.rule} className="flex items-start gap-2 text-xs">
+                    <Icon className={`h-3.5 w-3.5 mt-0.5 flex-shrink-0 ${style.color}`} />
+                    <span className="flex-1 text-foreground">{rule.label}</span>
+                    <span className="text-muted-foreground text-right">{rule.detail}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
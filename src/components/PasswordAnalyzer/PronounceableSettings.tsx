@@ -0,0 +1,117 @@
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PronounceableOptions, SyllableTemplate } from '@/utils/pronounceable';
+
+interface PronounceableSettingsProps {
+  options: PronounceableOptions;
+  onOptionsChange: (options: PronounceableOptions) => void;
+}
+
+const TEMPLATE_LABELS: Record<SyllableTemplate, string> = {
+  CV: 'Open syllables (ba, ko)',
+  CVC: 'Closed syllables (bak, tom)',
+};
+
+const SEPARATORS = [
+  { value: 'none', label: 'None', separator: '' },
+  { value: 'hyphen', label: 'Hyphen (ba-kom)', separator: '-' },
+  { value: 'dot', label: 'Dot (ba.kom)', separator: '.' },
+];
+
+const COUNT_FIELDS: { key: 'uppercase' | 'digits' | 'symbols'; label: string }[] = [
+  { key: 'uppercase', label: 'Capitals' },
+  { key: 'digits', label: 'Digits' },
+  { key: 'symbols', label: 'Symbols' },
+];
+
+export function PronounceableSettings({ options, onOptionsChange }: PronounceableSettingsProps) {
+  const update = (changes: Partial<PronounceableOptions>) => onOptionsChange({ ...options, ...changes });
+
+  const toggleTemplate = (template: SyllableTemplate, enabled: boolean) => {
+    const templates = enabled
+      ? [...options.templates, template]
+      : options.templates.filter(t => t !== template);
+    update({ templates });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Letters</Label>
+          <span className="text-sm font-medium text-foreground">{options.length}</span>
+        </div>
+        <Slider
+          value={[options.length]}
+          onValueChange={([length]) => update({ length })}
+          min={6}
+          max={32}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(TEMPLATE_LABELS) as SyllableTemplate[]).map(template => (
+          <div key={template} className="flex items-center space-x-2">
+            <Checkbox
+              id={`template-${template}`}
+              checked={options.templates.includes(template)}
+              onCheckedChange={(checked) => toggleTemplate(template, checked as boolean)}
+            />
+            <Label htmlFor={`template-${template}`} className="text-sm cursor-pointer">
+              {TEMPLATE_LABELS[template]}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-3 grid-cols-3">
+        {COUNT_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`pronounceable-${field.key}`} className="text-xs">{field.label}</Label>
+            <Input
+              id={`pronounceable-${field.key}`}
+              type="number"
+              min={0}
+              max={field.key === 'uppercase' ? options.length : 8}
+              value={options[field.key]}
+              onChange={(e) => update({ [field.key]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Between syllables</Label>
+          <Select
+            value={SEPARATORS.find(s => s.separator === options.separator)?.value ?? 'none'}
+            onValueChange={(value) => update({ separator: SEPARATORS.find(s => s.value === value).separator })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEPARATORS.map(s => (
+                <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="pronounceable-symbol-set" className="text-xs">Symbols to insert</Label>
+          <Input
+            id="pronounceable-symbol-set"
+            value={options.symbolSet}
+            onChange={(e) => update({ symbolSet: e.target.value })}
+            className="font-mono"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
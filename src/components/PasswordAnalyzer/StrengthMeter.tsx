@@ -1,5 +1,6 @@
-import { Shield, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
+import { AlertTriangle, Shield, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
 import { PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { formatGuesses } from '@/utils/format';
 
 interface StrengthMeterProps {
   analysis: PasswordAnalysis;
@@ -74,6 +75,31 @@ export function StrengthMeter({ analysis }: StrengthMeterProps) {
           />
         ))}
       </div>
+
+      {/* A breach outranks every estimate below */}
+      {analysis.breach?.breached && (
+        <div className="flex items-start gap-2 p-3 rounded-lg border bg-destructive/10 border-destructive/20">
+          <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-foreground">
+            <span className="font-semibold text-destructive">Found in {analysis.breach.count.toLocaleString()} data breaches.</span>{' '}
+            Attackers try known passwords first, so it is rated Very Weak whatever its length or complexity.
+          </p>
+        </div>
+      )}
+
+      {/* Guess estimates from both models */}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>
+          zxcvbn: <span className="font-mono text-foreground">{formatGuesses(analysis.guesses)}</span> guesses
+        </span>
+        {analysis.pcfg.available && (
+          <span>
+            PCFG ({analysis.pcfg.structure}):{' '}
+            <span className="font-mono text-foreground">{formatGuesses(analysis.pcfg.guesses)}</span>
+            {analysis.pcfg.covered && ' guesses'}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
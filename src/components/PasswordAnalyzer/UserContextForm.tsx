@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { ChevronDown, User } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { UserInputs } from '@/utils/userInputs';
+
+interface UserContextFormProps {
+  value: UserInputs;
+  onChange: (value: UserInputs) => void;
+}
+
+const fields: { key: keyof UserInputs; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Name', placeholder: 'Jane Doe' },
+  { key: 'email', label: 'Email', placeholder: 'jane@example.com' },
+  { key: 'username', label: 'Username', placeholder: 'jdoe' },
+  { key: 'company', label: 'Company', placeholder: 'Example Corp' },
+  { key: 'siteDomain', label: 'Site Domain', placeholder: 'example.com' },
+];
+
+export function UserContextForm({ value, onChange }: UserContextFormProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded border border-border bg-card">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-3">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <User className="h-4 w-4" />
+            About you (optional)
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Passwords built from your own details are among the first an attacker tries. These values
+          are only used for the analysis below and are never stored or sent anywhere.
+        </p>
+        <div className="grid gap-3 md:grid-cols-2">
+          {fields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`user-${field.key}`} className="text-xs">{field.label}</Label>
+              <Input
+                id={`user-${field.key}`}
+                value={value[field.key] ?? ''}
+                onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+                placeholder={field.placeholder}
+                autoComplete="off"
+              />
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { AnalysisProvider, applyProviders } from '@/utils/asyncAnalysis';
+import { AnalysisOptions, analyzePassword, PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { getAnalysisClient } from '@/workers/analysisClient';
+
+const EMPTY_ANALYSIS = analyzePassword('');
+
+/** Typing pause before async providers run, so lookups are not sent for every keystroke. */
+const PROVIDER_DELAY_MS = 400;
+
+export interface UseAnalysisOptions extends AnalysisOptions {
+  /** Keep the array stable between renders; a new one re-runs the analysis. */
+  providers?: AnalysisProvider[];
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Analyses `password` in the analysis worker. Each change cancels the request before it,
+ * so only the latest input is analysed and a slow result never overwrites a newer one.
+ * The worker's result is shown at once; provider evidence is merged in when it arrives.
+ */
+export function useAnalysis(password: string, options: UseAnalysisOptions = {}): PasswordAnalysis {
+  const [analysis, setAnalysis] = useState<PasswordAnalysis>(EMPTY_ANALYSIS);
+  const [assetsLoaded, setAssetsLoaded] = useState(false);
+  const { userInputs, attackerModel, providers } = options;
+
+  // Results improve once the word lists and models arrive, so analyse again then
+  useEffect(() => {
+    let mounted = true;
+    getAnalysisClient().ready.then(() => mounted && setAssetsLoaded(true));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    getAnalysisClient()
+      .analyze(password, { userInputs, attackerModel }, signal)
+      .then(async result => {
+        setAnalysis(result);
+        if (!password || !providers?.length) return;
+        await delay(PROVIDER_DELAY_MS, signal);
+        setAnalysis(await applyProviders(password, result, providers, { userInputs, signal }));
+      })
+      .catch(error => {
+        if (!signal.aborted) console.error('Analysis error:', error);
+      });
+    return () => controller.abort();
+  }, [password, userInputs, attackerModel, providers, assetsLoaded]);
+
+  return analysis;
+}
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BreachResult } from '@/utils/breachIndex';
+import { BreachProvider } from '@/utils/breachProvider';
+
+export interface BreachCheckState {
+  checking: boolean;
+  result: BreachResult | null;
+  error: Error | null;
+}
+
+const IDLE: BreachCheckState = { checking: false, result: null, error: null };
+
+/**
+ * Runs breach lookups for `password` on demand. Changing the password or provider aborts
+ * a lookup still in flight and clears the last result, which no longer applies.
+ */
+export function useBreachCheck(password: string, provider: BreachProvider) {
+  const [state, setState] = useState<BreachCheckState>(IDLE);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setState(IDLE);
+    return () => controller.current?.abort();
+  }, [password, provider]);
+
+  const check = useCallback(async (): Promise<BreachResult | null> => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setState({ checking: true, result: null, error: null });
+    try {
+      const result = await provider.check(password, current.signal);
+      setState({ checking: false, result, error: null });
+      return result;
+    } catch (error) {
+      if (current.signal.aborted) return null;
+      setState({ checking: false, result: null, error: error as Error });
+      throw error;
+    }
+  }, [password, provider]);
+
+  return { ...state, check };
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, ListChecks, Lock, Play, Square } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { BatchCharts } from '@/components/BatchAnalysis/BatchCharts';
+import { BatchResultsTable } from '@/components/BatchAnalysis/BatchResultsTable';
+import {
+  batchToCsv,
+  batchToJson,
+  BatchRow,
+  MAX_BATCH_SIZE,
+  parsePasswordList,
+  summarizeBatch,
+} from '@/utils/batch';
+import { downloadText } from '@/utils/download';
+import { POLICY_PRESETS } from '@/utils/policy';
+import { getAnalysisClient } from '@/workers/analysisClient';
+import { useToast } from '@/hooks/use-toast';
+
+const NO_POLICY = 'none';
+
+const Batch = () => {
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<'txt' | 'csv'>('txt');
+  const [policyId, setPolicyId] = useState(NO_POLICY);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [assetsLoaded, setAssetsLoaded] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Results are only meaningful with the word lists and models in place
+  useEffect(() => {
+    let mounted = true;
+    getAnalysisClient().ready.then(() => mounted && setAssetsLoaded(true));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const passwords = useMemo(() => parsePasswordList(text, format), [text, format]);
+  const summary = useMemo(() => summarizeBatch(rows), [rows]);
+  const policy = POLICY_PRESETS.find(p => p.id === policyId);
+
+  const loadFile = async (file: File) => {
+    setFormat(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'txt');
+    setText(await file.text());
+  };
+
+  const run = async () => {
+    controller.current?.abort();
+    const abort = new AbortController();
+    controller.current = abort;
+
+    const entries = passwords.slice(0, MAX_BATCH_SIZE);
+    if (passwords.length > MAX_BATCH_SIZE) {
+      toast({ title: 'List truncated', description: `Only the first ${MAX_BATCH_SIZE.toLocaleString()} entries are analysed` });
+    }
+
+    setRows([]);
+    setProgress({ done: 0, total: entries.length });
+    try {
+      const results = await getAnalysisClient().analyzeBatch(entries, {
+        policy,
+        signal: abort.signal,
+        onProgress: done => setProgress({ done, total: entries.length }),
+      });
+      setRows(results);
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      }
+    } finally {
+      if (controller.current === abort) setProgress(null);
+    }
+  };
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-primary" />
+            <h1 className="text-xl font-bold text-foreground">Batch Password Analysis</h1>
+          </div>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Single password
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-6xl space-y-4">
+        {/* Input */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <ListChecks className="h-4 w-4" />
+              Password List
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="One password per line, or CSV with a password column"
+              className="font-mono text-xs min-h-[160px]"
+              spellCheck={false}
+            />
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="batch-file" className="text-xs">Upload .txt or .csv</Label>
+                <Input
+                  id="batch-file"
+                  type="file"
+                  accept=".txt,.csv,text/plain,text/csv"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadFile(file);
+                  }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as 'txt' | 'csv')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="txt">One per line</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Policy</Label>
+                <Select value={policyId} onValueChange={setPolicyId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_POLICY}>No policy</SelectItem>
+                    {POLICY_PRESETS.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {progress ? (
+                <Button variant="outline" onClick={() => controller.current?.abort()}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={run} disabled={passwords.length === 0 || !assetsLoaded}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Analyse {passwords.length.toLocaleString()} {passwords.length === 1 ? 'entry' : 'entries'}
+                </Button>
+              )}
+              {progress && (
+                <div className="flex-1 space-y-1">
+                  <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                  <p className="text-xs text-muted-foreground">
+                    {progress.done.toLocaleString()} of {progress.total.toLocaleString()}
+                  </p>
+                </div>
+              )}
+              {!assetsLoaded && <span className="text-xs text-muted-foreground">Loading word lists...</span>}
+            </div>
+          </CardContent>
+        </Card>
+
+        {rows.length > 0 && (
+          <>
+            <BatchCharts summary={summary} />
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-semibold flex items-center justify-between">
+                  <span>Results</span>
+                  <span className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadText(`password-batch-${stamp}.csv`, batchToCsv(rows), 'text/csv')}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadText(`password-batch-${stamp}.json`, batchToJson(rows), 'application/json')}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      JSON
+                    </Button>
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BatchResultsTable rows={rows} showPolicy={Boolean(policy)} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* Footer Info */}
+        <div className="p-4 rounded border border-border bg-muted">
+          <h3 className="font-semibold text-foreground mb-2">About</h3>
+          <p className="text-sm text-muted-foreground">
+            Every entry is analysed in your browser. The list, the results and the exports never leave this device;
+            breach lookups are not run in batch mode.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Batch;
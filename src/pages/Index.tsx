@@ -1,8 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Eye, EyeOff, Lock } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Eye, EyeOff, ListChecks, Lock } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { analyzePassword, PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { UserInputs } from '@/utils/userInputs';
+import { useAnalysis } from '@/hooks/use-analysis';
+import { breachAnalysisProvider, withBreachResult } from '@/utils/asyncAnalysis';
+import { BreachResult } from '@/utils/breachIndex';
+import { BreachProvider } from '@/utils/breachProvider';
+import { PolicyResult } from '@/utils/policy';
+import { AttackerModel, DEFAULT_ATTACKER_MODEL } from '@/utils/attackerModel';
 import { StrengthMeter } from '@/components/PasswordAnalyzer/StrengthMeter';
 import { EntropyChart } from '@/components/PasswordAnalyzer/EntropyChart';
 import { CharacterDistribution } from '@/components/PasswordAnalyzer/CharacterDistribution';
@@ -12,35 +19,57 @@ import { HashStrengthTester } from '@/components/PasswordAnalyzer/HashStrengthTe
 import { EntropyGrowthChart } from '@/components/PasswordAnalyzer/EntropyGrowthChart';
 import { NgramAnalysis } from '@/components/PasswordAnalyzer/NgramAnalysis';
 import { PasswordGenerator } from '@/components/PasswordAnalyzer/PasswordGenerator';
+import { UserContextForm } from '@/components/PasswordAnalyzer/UserContextForm';
+import { PolicyCompliance } from '@/components/PasswordAnalyzer/PolicyCompliance';
+import { ExportMenu } from '@/components/PasswordAnalyzer/ExportMenu';
 
 const Index = () => {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
-  const [analysis, setAnalysis] = useState<PasswordAnalysis>(analyzePassword(''));
-
-  // Update analysis when password changes
-  const analyzePasswordDebounced = useCallback((pwd: string) => {
-    const result = analyzePassword(pwd);
-    setAnalysis(result);
-  }, []);
+  // Held in memory only, never persisted
+  const [userInputs, setUserInputs] = useState<UserInputs>({});
+  // Set while breach checks run as you type; their results then arrive with the analysis
+  const [autoBreachProvider, setAutoBreachProvider] = useState<BreachProvider | null>(null);
+  const providers = useMemo(
+    () => (autoBreachProvider ? [breachAnalysisProvider(autoBreachProvider)] : []),
+    [autoBreachProvider]
+  );
+  // Edited in the hash panel; crack times everywhere on the page follow it
+  const [attackerModel, setAttackerModel] = useState<AttackerModel>(DEFAULT_ATTACKER_MODEL);
+  const liveAnalysis = useAnalysis(password, { userInputs, attackerModel, providers });
+  // Result of the last manual breach check; cleared whenever the password changes
+  const [checkedBreach, setCheckedBreach] = useState<BreachResult>();
+  const analysis = useMemo(
+    () => (checkedBreach && !liveAnalysis.breach ? withBreachResult(liveAnalysis, checkedBreach) : liveAnalysis),
+    [liveAnalysis, checkedBreach]
+  );
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      analyzePasswordDebounced(password);
-    }, 100);
+  // The selected policy's result, for exported reports
+  const [policyResult, setPolicyResult] = useState<PolicyResult>();
 
-    return () => clearTimeout(timer);
-  }, [password, analyzePasswordDebounced]);
+  const updatePassword = (value: string) => {
+    setPassword(value);
+    setCheckedBreach(undefined);
+  };
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b border-border bg-card">
-        <div className="container mx-auto px-4 py-6">
+        <div className="container mx-auto px-4 py-6 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Lock className="h-5 w-5 text-primary" />
             <h1 className="text-xl font-bold text-foreground">Password Strength Analyzer</h1>
           </div>
+          <div className="flex items-center gap-2">
+            <ExportMenu analysis={analysis} policy={policyResult} disabled={!password} />
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/batch">
+                <ListChecks className="h-4 w-4 mr-2" />
+                Batch analysis
+              </Link>
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -52,7 +81,7 @@ const Index = () => {
             <Input
               type={showPassword ? 'text' : 'password'}
               value={password}
-              onChange={(e) => setPassword(e.target.value)}
+              onChange={(e) => updatePassword(e.target.value)}
               placeholder="Enter password..."
               className="pr-10 h-12"
               autoComplete="off"
@@ -72,13 +101,16 @@ const Index = () => {
             </Button>
           </div>
 
+          {/* Personal context */}
+          <UserContextForm value={userInputs} onChange={setUserInputs} />
+
           {/* Strength Meter */}
           {password && <StrengthMeter analysis={analysis} />}
         </div>
 
         {/* Password Generator */}
         <div className="mb-6">
-          <PasswordGenerator onPasswordGenerated={setPassword} />
+          <PasswordGenerator onPasswordGenerated={updatePassword} />
         </div>
 
         {/* Analytics Grid */}
@@ -100,7 +132,7 @@ const Index = () => {
           </div>
 
           {/* Hash Strength Tester */}
-          <HashStrengthTester analysis={analysis} />
+          <HashStrengthTester analysis={analysis} model={attackerModel} onModelChange={setAttackerModel} />
 
           {/* Feedback */}
           <div>
@@ -108,19 +140,36 @@ const Index = () => {
           </div>
 
           {/* Breach Checker */}
-          <BreachChecker password={password} />
+          <BreachChecker
+            password={password}
+            onResult={setCheckedBreach}
+            onAutoCheckChange={setAutoBreachProvider}
+          />
+
+          {/* Policy Compliance */}
+          <PolicyCompliance
+            password={password}
+            analysis={analysis}
+            userInputs={userInputs}
+            breached={analysis.breach?.breached}
+            onResultChange={setPolicyResult}
+          />
         </div>
 
         {/* Additional Stats */}
         {password && (
-          <div className="mt-4 grid gap-3 grid-cols-4">
+          <div className="mt-4 grid gap-3 grid-cols-5">
             <div className="p-3 rounded border border-border bg-card">
               <p className="text-xs text-muted-foreground">Length</p>
               <p className="text-xl font-bold text-foreground">{analysis.length}</p>
             </div>
             <div className="p-3 rounded border border-border bg-card">
-              <p className="text-xs text-muted-foreground">Entropy</p>
-              <p className="text-xl font-bold text-foreground">{Math.round(analysis.entropy)}</p>
+              <p className="text-xs text-muted-foreground">Brute-force Entropy</p>
+              <p className="text-xl font-bold text-foreground">{Math.round(analysis.entropy)} bits</p>
+            </div>
+            <div className="p-3 rounded border border-border bg-card">
+              <p className="text-xs text-muted-foreground">Effective Entropy</p>
+              <p className="text-xl font-bold text-foreground">{Math.round(analysis.effectiveEntropy)} bits</p>
             </div>
             <div className="p-3 rounded border border-border bg-card">
               <p className="text-xs text-muted-foreground">Types</p>
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { DEFAULT_GENERATION_POLICY, MAX_CLASS_MINIMUM, MAX_GENERATED_LENGTH } from '@/utils/generator';
+import { DEFAULT_PASSPHRASE_OPTIONS } from '@/utils/passphrase';
+import { passwordPolicySchema } from '@/utils/policy';
+import { DEFAULT_PRONOUNCEABLE_OPTIONS } from '@/utils/pronounceable';
+
+/** Analysis cost grows quickly with length; longer inputs are refused rather than queued. */
+export const MAX_PASSWORD_LENGTH = 256;
+
+/** Most passwords one /generate call returns. */
+export const MAX_GENERATE_COUNT = 100;
+
+/** Most characters (words, for passphrases) one /generate call may produce in total. */
+export const MAX_GENERATE_OUTPUT = 4096;
+
+const password = z.string().max(MAX_PASSWORD_LENGTH);
+const count = z.number().int().min(1).max(MAX_GENERATE_COUNT).optional();
+const smallInt = z.number().int().min(0).max(256);
+const classMinimum = z.number().int().min(0).max(MAX_CLASS_MINIMUM);
+
+const userInputsSchema = z.object({
+  name: z.string().max(256).optional(),
+  email: z.string().max(256).optional(),
+  username: z.string().max(256).optional(),
+  company: z.string().max(256).optional(),
+  siteDomain: z.string().max(256).optional(),
+}).strict();
+
+export const analyzeRequestSchema = z.object({
+  password,
+  userInputs: userInputsSchema.optional(),
+}).strict();
+
+const generateModes = z.discriminatedUnion('mode', [
+  z.object({
+    mode: z.literal('random'),
+    count,
+    length: z.number().int().min(1).max(MAX_GENERATED_LENGTH).optional(),
+    minCounts: z.object({
+      lowercase: classMinimum.optional(),
+      uppercase: classMinimum.optional(),
+      digits: classMinimum.optional(),
+      symbols: classMinimum.optional(),
+    }).strict().optional(),
+    symbols: z.string().max(256).optional(),
+    exclude: z.string().max(256).optional(),
+    maxConsecutive: smallInt.optional(),
+    forbiddenSubstrings: z.array(z.string().min(1).max(64)).max(64).optional(),
+  }).strict(),
+  z.object({
+    mode: z.literal('passphrase'),
+    count,
+    wordlist: z.enum(['eff-long']).optional(),
+    wordCount: z.number().int().min(1).max(64).optional(),
+    separator: z.string().max(16).optional(),
+    capitalisation: z.enum(['lower', 'upper', 'title', 'random']).optional(),
+    includeDigit: z.boolean().optional(),
+    includeSymbol: z.boolean().optional(),
+    symbols: z.string().max(256).optional(),
+  }).strict(),
+  z.object({
+    mode: z.literal('pronounceable'),
+    count,
+    length: z.number().int().min(2).max(128).optional(),
+    templates: z.array(z.enum(['CV', 'CVC'])).min(1).optional(),
+    separator: z.string().max(16).optional(),
+    uppercase: smallInt.optional(),
+    digits: smallInt.optional(),
+    symbols: smallInt.optional(),
+    symbolSet: z.string().max(256).optional(),
+  }).strict(),
+  z.object({
+    mode: z.literal('mask'),
+    count,
+    mask: z.string().min(1).max(1024),
+  }).strict(),
+]);
+
+/** Characters, or words for passphrases, that a request asks for across all its passwords. */
+function outputSize(request: z.infer<typeof generateModes>): number {
+  const each = request.mode === 'random' ? request.length ?? DEFAULT_GENERATION_POLICY.length
+    : request.mode === 'passphrase' ? request.wordCount ?? DEFAULT_PASSPHRASE_OPTIONS.wordCount
+    : request.mode === 'pronounceable' ? request.length ?? DEFAULT_PRONOUNCEABLE_OPTIONS.length
+    : request.mask.length;
+  return each * (request.count ?? 1);
+}
+
+export const generateRequestSchema = generateModes.superRefine((request, context) => {
+  if (outputSize(request) > MAX_GENERATE_OUTPUT) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['count'],
+      message: `count × length may be at most ${MAX_GENERATE_OUTPUT}`,
+    });
+  }
+});
+
+export const policyRequestSchema = z.object({
+  password,
+  /** A preset id or a full policy. */
+  policy: z.union([z.string(), passwordPolicySchema]),
+  userInputs: userInputsSchema.optional(),
+  /** Outcome of the caller's own breach lookup, if it ran one. */
+  breached: z.boolean().optional(),
+}).strict();
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
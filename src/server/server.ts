@@ -0,0 +1,209 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { z } from 'zod';
+import { DEFAULT_GENERATION_POLICY, describeSpace, generatePassword } from '@/utils/generator';
+import { generateFromMask, maskSpace, parseMask } from '@/utils/mask';
+import { DEFAULT_PASSPHRASE_OPTIONS, generatePassphrase, loadWordlist, passphraseEntropy } from '@/utils/passphrase';
+import { evaluatePolicy, PasswordPolicy, POLICY_PRESETS } from '@/utils/policy';
+import { DEFAULT_PRONOUNCEABLE_OPTIONS, generatePronounceable, pronounceableSpace } from '@/utils/pronounceable';
+import { analysisReport } from '@/utils/report';
+import { getAnalysisClient } from '@/workers/analysisClient';
+import { analyzeRequestSchema, GenerateRequest, generateRequestSchema, policyRequestSchema } from './schemas';
+
+export interface ServerOptions {
+  /** Largest request body accepted, in bytes; larger ones get 413. */
+  maxBodyBytes: number;
+  /**
+   * Log bodies with each request line. Passwords, personal details and anything that
+   * narrows a password down (pattern guesses, rule details) are redacted either way.
+   */
+  logBodies: boolean;
+  log: (line: string) => void;
+}
+
+export const DEFAULT_SERVER_OPTIONS: ServerOptions = {
+  maxBodyBytes: 16 * 1024,
+  logBodies: false,
+  log: line => process.stderr.write(`${line}\n`),
+};
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+type Handler = (body: unknown) => Promise<Reply>;
+
+// Pattern guesses are dictionary ranks and rule details name them, so both point back to the password
+const REDACTED_KEYS = new Set(['password', 'passwords', 'userInputs', 'token', 'guesses', 'detail']);
+
+/**
+ * A copy safe to log: passwords, generated passwords, matched tokens, guess counts, rule
+ * details and personal details are masked.
+ */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, REDACTED_KEYS.has(key) ? '[redacted]' : redact(item)])
+    );
+  }
+  return value;
+}
+
+function invalid(error: z.ZodError): Reply {
+  return {
+    status: 400,
+    body: {
+      error: 'Invalid request',
+      issues: error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+    },
+  };
+}
+
+/** Validates the body against `schema` before handing it to `handle`. */
+function validated<T>(schema: z.ZodType<T>, handle: (request: T) => Promise<Reply> | Reply): Handler {
+  return async body => {
+    const result = schema.safeParse(body);
+    return result.success ? handle(result.data) : invalid(result.error);
+  };
+}
+
+/** One password generator for the request and the exact entropy of its space. */
+async function generatorFor(request: GenerateRequest): Promise<[() => string, number]> {
+  if (request.mode === 'random') {
+    const { mode, count, ...options } = request;
+    const policy = { ...DEFAULT_GENERATION_POLICY, ...options };
+    return [() => generatePassword(policy), describeSpace(policy).entropy];
+  }
+  if (request.mode === 'passphrase') {
+    const { mode, count, wordlist = 'eff-long', ...rest } = request;
+    const words = await loadWordlist(wordlist);
+    const options = { ...DEFAULT_PASSPHRASE_OPTIONS, ...rest };
+    return [() => generatePassphrase(words, options), passphraseEntropy(words.length, options)];
+  }
+  if (request.mode === 'pronounceable') {
+    const { mode, count, ...rest } = request;
+    const options = { ...DEFAULT_PRONOUNCEABLE_OPTIONS, ...rest };
+    return [() => generatePronounceable(options), pronounceableSpace(options).entropy];
+  }
+  const positions = parseMask(request.mask);
+  return [() => generateFromMask(positions), maskSpace(positions).entropy];
+}
+
+const analyze = validated(analyzeRequestSchema, async ({ password, userInputs }) => {
+  const analysis = await getAnalysisClient().analyze(password, { userInputs, entropyPerCharacter: false });
+  return { status: 200, body: analysisReport(analysis) };
+});
+
+const generate = validated(generateRequestSchema, async request => {
+  let generator: [() => string, number];
+  try {
+    generator = await generatorFor(request);
+  } catch (error) {
+    // Mask syntax errors and random policies too large to count
+    return { status: 400, body: { error: (error as Error).message } };
+  }
+  const [draw, entropy] = generator;
+  try {
+    const passwords = Array.from({ length: request.count ?? 1 }, draw);
+    return { status: 200, body: { mode: request.mode, entropy: Math.round(entropy * 10) / 10, passwords } };
+  } catch (error) {
+    // Constraints no password can meet
+    return { status: 422, body: { error: (error as Error).message } };
+  }
+});
+
+const policy = validated(policyRequestSchema, ({ password, policy, userInputs, breached }) => {
+  const resolved = typeof policy === 'string'
+    ? POLICY_PRESETS.find(preset => preset.id === policy)
+    : (policy as PasswordPolicy);
+  if (!resolved) {
+    return { status: 400, body: { error: `Unknown policy preset "${policy}"`, presets: POLICY_PRESETS.map(p => p.id) } };
+  }
+  return { status: 200, body: evaluatePolicy(password, resolved, { userInputs, breached }) };
+});
+
+/** Reads the body, or returns null once it passes `limit` bytes. The rest is drained, not kept. */
+function readBody(request: IncomingMessage, limit: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= limit) chunks.push(chunk);
+    });
+    request.on('end', () => resolve(size > limit ? null : Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * A JSON API around the analysis engine for services that cannot import it:
+ * `POST /analyze`, `POST /generate`, `POST /policy` and `GET /health`.
+ */
+export function createAnalysisServer(overrides: Partial<ServerOptions> = {}): Server {
+  const options = { ...DEFAULT_SERVER_OPTIONS, ...overrides };
+  const client = getAnalysisClient();
+  let ready = false;
+  client.ready.then(() => {
+    ready = true;
+  });
+
+  const routes: Record<string, Handler> = { '/analyze': analyze, '/generate': generate, '/policy': policy };
+
+  async function route(request: IncomingMessage): Promise<[Reply, unknown]> {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+    if (path === '/health') {
+      if (request.method !== 'GET') return [{ status: 405, body: { error: 'Use GET' } }, undefined];
+      return [ready ? { status: 200, body: { status: 'ok' } } : { status: 503, body: { status: 'starting' } }, undefined];
+    }
+
+    const handler = routes[path];
+    if (!handler) return [{ status: 404, body: { error: 'Not found' } }, undefined];
+    if (request.method !== 'POST') return [{ status: 405, body: { error: 'Use POST' } }, undefined];
+    if (!request.headers['content-type']?.startsWith('application/json')) {
+      return [{ status: 415, body: { error: 'Send application/json' } }, undefined];
+    }
+
+    const declared = Number(request.headers['content-length']);
+    const text = declared > options.maxBodyBytes ? null : await readBody(request, options.maxBodyBytes);
+    if (text === null) {
+      request.resume();
+      return [{ status: 413, body: { error: `Bodies are limited to ${options.maxBodyBytes} bytes` } }, undefined];
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return [{ status: 400, body: { error: 'Body is not valid JSON' } }, undefined];
+    }
+    return [await handler(body), body];
+  }
+
+  return createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const started = Date.now();
+    let reply: Reply;
+    let body: unknown;
+    try {
+      [reply, body] = await route(request);
+    } catch (error) {
+      options.log(`Unhandled error: ${(error as Error).stack ?? error}`);
+      reply = { status: 500, body: { error: 'Internal error' } };
+    }
+
+    response.writeHead(reply.status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+      ...(reply.status === 413 ? { Connection: 'close' } : {}),
+    });
+    response.end(JSON.stringify(reply.body));
+
+    let line = `${new Date().toISOString()} ${request.method} ${request.url} ${reply.status} ${Date.now() - started}ms`;
+    if (options.logBodies) {
+      line += ` request=${JSON.stringify(redact(body) ?? null)} response=${JSON.stringify(redact(reply.body))}`;
+    }
+    options.log(line);
+  });
+}
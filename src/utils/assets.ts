@@ -0,0 +1,30 @@
+/** Reads a file shipped under `public/`, given its path relative to the site root. */
+export type AssetReader = (path: string) => Promise<Uint8Array>;
+
+async function fetchAsset(path: string): Promise<Uint8Array> {
+  const response = await fetch(`${import.meta.env.BASE_URL}${path}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+let reader: AssetReader = fetchAsset;
+
+/** Replaces how assets are read, e.g. from disk outside the browser. */
+export function setAssetReader(next: AssetReader) {
+  reader = next;
+}
+
+/**
+ * Loads a text asset. Assets are gzipped, but a server may already have removed the
+ * compression via `Content-Encoding`, so only real gzip data is inflated.
+ */
+export async function loadTextAsset(path: string): Promise<string> {
+  let data = await reader(path);
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+    data = new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  return new TextDecoder().decode(data);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisProvider, analyzePasswordAsync, applyProviders, withBreachResult } from './asyncAnalysis';
+import { analyzePassword } from './passwordAnalysis';
+import { PasswordPolicy } from './policy';
+
+const STRONG = 'Vx7#tundra-quill-Orbit9';
+
+const BREACH_POLICY: PasswordPolicy = { id: 'breaches', name: 'Breach check', checkBreaches: true };
+
+const provider = (id: string, contribute: AnalysisProvider['contribute']): AnalysisProvider => ({ id, contribute });
+
+describe('withBreachResult', () => {
+  it('drops a breached password to the lowest score and leads with the breach', () => {
+    const analysis = analyzePassword(STRONG);
+    expect(analysis.score).toBeGreaterThan(2);
+
+    const breached = withBreachResult(analysis, { breached: true, count: 3 });
+    expect(breached.score).toBe(0);
+    expect(breached.strength).toBe('very-weak');
+    expect(breached.feedback[0]).toMatch(/^Found in data breaches/);
+    expect(breached.feedback).not.toContain('Great password!');
+  });
+
+  it('keeps the analysis of a password that was not found', () => {
+    const analysis = analyzePassword(STRONG);
+    expect(withBreachResult(analysis, { breached: false, count: 0 })).toEqual({
+      ...analysis,
+      breach: { breached: false, count: 0 },
+    });
+  });
+});
+
+describe('applyProviders', () => {
+  it('merges contributions, records failures and evaluates policies after the breach result', async () => {
+    const analysis = analyzePassword(STRONG);
+    const merged = await applyProviders(STRONG, analysis, [
+      provider('policy', async () => ({ policies: [BREACH_POLICY] })),
+      provider('breach', async () => ({ breach: { breached: true, count: 12 } })),
+      provider('broken', async () => {
+        throw new Error('Service unavailable');
+      }),
+    ]);
+
+    expect(merged.breach).toEqual({ breached: true, count: 12 });
+    expect(merged.score).toBe(0);
+    expect(merged.providerErrors).toEqual([{ id: 'broken', message: 'Service unavailable' }]);
+    // The policy provider answered first, but its rule still sees the breach
+    expect(merged.policies).toHaveLength(1);
+    expect(merged.policies[0].status).toBe('fail');
+    expect(merged.policies[0].rules.find(rule => rule.rule === 'checkBreaches')?.status).toBe('fail');
+    expect(merged.feedback).toContain('Does not meet the Breach check policy');
+  });
+
+  it('returns the analysis unchanged without providers or a password', async () => {
+    const analysis = analyzePassword(STRONG);
+    expect(await applyProviders(STRONG, analysis, [])).toBe(analysis);
+    const empty = analyzePassword('');
+    expect(await applyProviders('', empty, [provider('breach', async () => ({ breach: { breached: true, count: 1 } }))])).toBe(empty);
+  });
+});
+
+describe('analyzePasswordAsync', () => {
+  it('matches analyzePassword when there are no providers', async () => {
+    for (const password of ['', 'dragon', STRONG]) {
+      expect(await analyzePasswordAsync(password)).toEqual(analyzePassword(password));
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { BreachResult } from './breachIndex';
+import { BreachProvider } from './breachProvider';
+import { AnalysisOptions, analyzePassword, PasswordAnalysis } from './passwordAnalysis';
+import { evaluatePolicy, parsePolicy, PasswordPolicy } from './policy';
+
+/** What an async provider adds to an analysis. */
+export interface AnalysisContribution {
+  breach?: BreachResult;
+  /** Evaluated against the password once every provider has answered, so breach results count. */
+  policies?: PasswordPolicy[];
+}
+
+/** Evidence that needs I/O, such as a breach lookup or a policy kept on a server. */
+export interface AnalysisProvider {
+  id: string;
+  /** Rejects with the signal's reason if aborted. */
+  contribute(password: string, analysis: PasswordAnalysis, signal?: AbortSignal): Promise<AnalysisContribution>;
+}
+
+export interface AsyncAnalysisOptions extends AnalysisOptions {
+  providers?: AnalysisProvider[];
+  signal?: AbortSignal;
+  /** Produces the synchronous analysis; defaults to `analyzePassword`, or e.g. the worker client. */
+  analyze?: (password: string, options: AnalysisOptions, signal?: AbortSignal) => Promise<PasswordAnalysis>;
+}
+
+/**
+ * Folds a breach result into an analysis. A breached password is capped at the lowest
+ * score whatever its guess estimates, and the breach leads its feedback.
+ */
+export function withBreachResult(analysis: PasswordAnalysis, breach: BreachResult): PasswordAnalysis {
+  if (!breach.breached) return { ...analysis, breach };
+  return {
+    ...analysis,
+    breach,
+    score: 0,
+    strength: 'very-weak',
+    feedback: [
+      // The count is shown beside the meter; feedback also goes into redacted reports
+      'Found in data breaches. Attackers try these first; choose a different password',
+      ...analysis.feedback.filter(item => item !== 'Great password!'),
+    ],
+  };
+}
+
+/** Runs `providers` against an existing analysis and merges what they return. */
+export async function applyProviders(
+  password: string,
+  analysis: PasswordAnalysis,
+  providers: AnalysisProvider[],
+  options: AnalysisOptions & { signal?: AbortSignal } = {}
+): Promise<PasswordAnalysis> {
+  const { signal, userInputs } = options;
+  if (!password || providers.length === 0) return analysis;
+
+  const settled = await Promise.allSettled(providers.map(provider => provider.contribute(password, analysis, signal)));
+  signal?.throwIfAborted();
+
+  let merged = analysis;
+  const policies: PasswordPolicy[] = [];
+  const providerErrors: { id: string; message: string }[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'rejected') {
+      providerErrors.push({ id: providers[i].id, message: (outcome.reason as Error)?.message ?? String(outcome.reason) });
+      return;
+    }
+    if (outcome.value.breach) merged = withBreachResult(merged, outcome.value.breach);
+    policies.push(...(outcome.value.policies ?? []));
+  });
+
+  if (policies.length > 0) {
+    const results = policies.map(policy =>
+      evaluatePolicy(password, policy, { userInputs, breached: merged.breach?.breached, analysis: merged })
+    );
+    const failed = results.filter(result => result.status === 'fail').map(result => `Does not meet the ${result.policy.name} policy`);
+    merged = { ...merged, policies: results, feedback: [...merged.feedback, ...failed] };
+  }
+  return providerErrors.length > 0 ? { ...merged, providerErrors } : merged;
+}
+
+/**
+ * `analyzePassword` plus async providers. Without providers it gives the same result as
+ * the synchronous call, so callers can adopt it before they have any.
+ */
+export async function analyzePasswordAsync(password: string, options: AsyncAnalysisOptions = {}): Promise<PasswordAnalysis> {
+  const { providers = [], signal, analyze, ...analysisOptions } = options;
+  signal?.throwIfAborted();
+  const analysis = analyze
+    ? await analyze(password, analysisOptions, signal)
+    : analyzePassword(password, analysisOptions);
+  return applyProviders(password, analysis, providers, { ...analysisOptions, signal });
+}
+
+/** Contributes a breach lookup. */
+export function breachAnalysisProvider(provider: BreachProvider): AnalysisProvider {
+  return {
+    id: `breach:${provider.id}`,
+    contribute: async (password, _analysis, signal) => ({ breach: await provider.check(password, signal) }),
+  };
+}
+
+const remotePolicies = new Map<string, Promise<PasswordPolicy>>();
+
+/** Contributes a JSON or YAML policy fetched from `url`, fetched once per page load. */
+export function remotePolicyProvider(url: string): AnalysisProvider {
+  return {
+    id: `policy:${url}`,
+    async contribute() {
+      let policy = remotePolicies.get(url);
+      if (!policy) {
+        policy = fetch(url).then(async response => {
+          if (!response.ok) throw new Error(`Failed to load policy from ${url}: ${response.status}`);
+          return parsePolicy(await response.text());
+        });
+        // Failures are retried on the next analysis rather than cached
+        policy.catch(() => remotePolicies.delete(url));
+        remotePolicies.set(url, policy);
+      }
+      return { policies: [await policy] };
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { AttackerModel, DEFAULT_ATTACKER_MODEL, estimateCrackTime, estimateCrackTimes } from './attackerModel';
+import { analyzePassword } from './passwordAnalysis';
+
+const CLUSTER: AttackerModel = {
+  devices: 100,
+  guessesPerSecondPerDevice: { bcrypt: 1e4, sha256: 1e10, argon2: 100 },
+};
+
+describe('estimateCrackTimes', () => {
+  it('divides the guesses by each rate across every device', () => {
+    const times = estimateCrackTimes(1e12, CLUSTER);
+    expect(times.bcrypt).toMatchObject({ seconds: 1e6, rate: 1e6 });
+    expect(times.sha256).toMatchObject({ seconds: 1, rate: 1e12 });
+    expect(times.argon2).toMatchObject({ seconds: 1e8, rate: 1e4 });
+  });
+
+  it('uses one GPU by default', () => {
+    expect(estimateCrackTimes(22e9).sha256.seconds).toBe(1);
+    expect(estimateCrackTime(5.7e3, DEFAULT_ATTACKER_MODEL.guessesPerSecondPerDevice.bcrypt).seconds).toBe(1);
+  });
+});
+
+describe('crack time in analysis', () => {
+  it('follows the bcrypt estimate of the attacker model', () => {
+    const password = 'correct-horse-7';
+    const standard = analyzePassword(password);
+    const custom = analyzePassword(password, { attackerModel: CLUSTER });
+
+    expect(standard.crackTime).toBe(standard.hashStrength.bcrypt.time);
+    expect(custom.crackTime).toBe(custom.hashStrength.bcrypt.time);
+    expect(custom.hashStrength.bcrypt.seconds).toBeCloseTo(custom.attackGuesses / 1e6);
+    expect(custom.crackTime).not.toBe(standard.crackTime);
+  });
+});
@@ -0,0 +1,65 @@
+import { formatDuration, formatRate } from './format';
+
+export type HashAlgorithm = 'bcrypt' | 'sha256' | 'argon2';
+
+/** An offline attacker: how fast one device guesses against each hash, and how many devices. */
+export interface AttackerModel {
+  devices: number;
+  guessesPerSecondPerDevice: Record<HashAlgorithm, number>;
+}
+
+export interface CrackTimeEstimate {
+  /** Seconds to try every guess the estimate allows. */
+  seconds: number;
+  time: string;
+  /** Guesses per second across all devices. */
+  rate: number;
+  guessesPerSecond: string;
+}
+
+export type HashStrength = Record<HashAlgorithm, CrackTimeEstimate>;
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['bcrypt', 'sha256', 'argon2'];
+
+export const HASH_ALGORITHM_LABELS: Record<HashAlgorithm, string> = {
+  bcrypt: 'Bcrypt (cost 10)',
+  sha256: 'SHA-256',
+  argon2: 'Argon2id (64 MiB, t=3)',
+};
+
+/**
+ * One current high-end GPU running hashcat: unsalted SHA-256, bcrypt at cost 10 and
+ * Argon2id with 64 MiB of memory and 3 iterations.
+ */
+export const DEFAULT_ATTACKER_MODEL: AttackerModel = {
+  devices: 1,
+  guessesPerSecondPerDevice: {
+    sha256: 22e9,
+    bcrypt: 5.7e3,
+    argon2: 200,
+  },
+};
+
+export const EMPTY_HASH_STRENGTH: HashStrength = {
+  bcrypt: { seconds: 0, time: 'N/A', rate: 0, guessesPerSecond: 'N/A' },
+  sha256: { seconds: 0, time: 'N/A', rate: 0, guessesPerSecond: 'N/A' },
+  argon2: { seconds: 0, time: 'N/A', rate: 0, guessesPerSecond: 'N/A' },
+};
+
+export function estimateCrackTime(guesses: number, rate: number): CrackTimeEstimate {
+  const seconds = guesses / rate;
+  return { seconds, time: formatDuration(seconds), rate, guessesPerSecond: formatRate(rate) };
+}
+
+/** Turns a guess count into crack times for every hash algorithm under `model`. */
+export function estimateCrackTimes(
+  guesses: number,
+  model: AttackerModel = DEFAULT_ATTACKER_MODEL
+): HashStrength {
+  const estimates = {} as HashStrength;
+  for (const algorithm of HASH_ALGORITHMS) {
+    const rate = model.guessesPerSecondPerDevice[algorithm] * model.devices;
+    estimates[algorithm] = estimateCrackTime(guesses, rate);
+  }
+  return estimates;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { BatchRow, batchToCsv, parsePasswordList } from './batch';
+
+const row = (password: string): BatchRow => ({
+  index: 1,
+  password,
+  score: 0,
+  strength: 'very-weak',
+  guesses: 1,
+  length: password.length,
+  effectiveEntropy: 0,
+  mask: '',
+  patterns: [],
+});
+
+describe('parsePasswordList', () => {
+  it('keeps quoted commas, quotes and line breaks inside one cell', () => {
+    const csv = 'user,password\r\nalice,"a,b"\nbob,"say ""hi"""\ncarol,"two\nlines"\n\n';
+    expect(parsePasswordList(csv, 'csv')).toEqual(['a,b', 'say "hi"', 'two\nlines']);
+  });
+
+  it('reads the first column without a password header', () => {
+    expect(parsePasswordList('hunter2,x\n"p,w"\n', 'csv')).toEqual(['hunter2', 'p,w']);
+  });
+});
+
+describe('batchToCsv', () => {
+  it('defuses cells a spreadsheet would run as formulas', () => {
+    const lines = batchToCsv(['=1+1', '+A1', '-2', '@SUM(A1)', '\tx', 'safe'].map(row)).trim().split('\n').slice(1);
+    expect(lines.map(line => line.split(',')[1])).toEqual(["'=1+1", "'+A1", "'-2", "'@SUM(A1)", "'\tx", 'safe']);
+  });
+});
@@ -0,0 +1,198 @@
+import { analyzePassword, PasswordAnalysis, PatternKind } from './passwordAnalysis';
+import { maskOf } from './mask';
+import { evaluatePolicy, PasswordPolicy, PolicyStatus } from './policy';
+
+/** Larger lists are cut off; analysing them would keep the tab busy for many minutes. */
+export const MAX_BATCH_SIZE = 50000;
+
+export interface BatchRow {
+  /** 1-based position in the list. */
+  index: number;
+  password: string;
+  score: number;
+  strength: PasswordAnalysis['strength'];
+  guesses: number;
+  /** Length in characters (grapheme clusters). */
+  length: number;
+  effectiveEntropy: number;
+  /** Shape in the generator's mask notation. */
+  mask: string;
+  /** Kinds of pattern found, each listed once. */
+  patterns: PatternKind[];
+  /** Result against the selected policy, if one was chosen. */
+  policy?: PolicyStatus;
+}
+
+export interface BatchSummary {
+  count: number;
+  averageScore: number;
+  /** `scores[s]` is how many entries scored `s`. */
+  scores: number[];
+  /** Most frequent masks, most common first. */
+  masks: { mask: string; count: number }[];
+  lengths: { length: number; count: number }[];
+  policy?: Record<PolicyStatus, number>;
+}
+
+/**
+ * Splits CSV into rows of cells in one pass, so double-quoted cells may hold commas,
+ * `""` escapes and line breaks. Empty lines are skipped.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  // Set once the row has content, so blank lines do not become rows of one empty cell
+  let started = false;
+  const endRow = () => {
+    if (started) rows.push([...row, cell]);
+    row = [];
+    cell = '';
+    started = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+      started = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+      started = true;
+    } else if (char === '\n' || (char === '\r' && text[i + 1] === '\n')) {
+      if (char === '\r') i++;
+      endRow();
+    } else {
+      cell += char;
+      started = true;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Reads a password list. Plain text has one password per line. CSV uses the column
+ * headed `password` if there is one, otherwise the first column. Lines are not trimmed
+ * beyond their line ending, since spaces can be part of a password.
+ */
+export function parsePasswordList(text: string, format: 'txt' | 'csv' = 'txt'): string[] {
+  if (format === 'txt') return text.split(/\r?\n/).filter(line => line.length > 0);
+
+  const rows = parseCsv(text);
+  const header = rows[0]?.findIndex(cell => cell.trim().toLowerCase() === 'password') ?? -1;
+  const column = Math.max(header, 0);
+  return rows
+    .slice(header >= 0 ? 1 : 0)
+    .map(row => row[column] ?? '')
+    .filter(password => password.length > 0);
+}
+
+export function toBatchRow(index: number, password: string, policy?: PasswordPolicy): BatchRow {
+  const analysis = analyzePassword(password, { entropyPerCharacter: false });
+  return {
+    index,
+    password,
+    score: analysis.score,
+    strength: analysis.strength,
+    guesses: Math.round(analysis.attackGuesses),
+    length: analysis.length,
+    effectiveEntropy: Math.round(analysis.effectiveEntropy * 10) / 10,
+    mask: maskOf(password),
+    patterns: Array.from(new Set(analysis.matches.map(match => match.kind))),
+    policy: policy ? evaluatePolicy(password, policy, { analysis }).status : undefined,
+  };
+}
+
+export interface BatchOptions {
+  policy?: PasswordPolicy;
+  /** Called after each chunk with the number of entries done. */
+  onProgress?: (done: number) => void;
+  signal?: AbortSignal;
+}
+
+const CHUNK_SIZE = 50;
+
+/** Analyses every entry, yielding between chunks so progress, cancellation and other work get through. */
+export async function analyzeBatch(passwords: string[], options: BatchOptions = {}): Promise<BatchRow[]> {
+  const rows: BatchRow[] = [];
+  for (let start = 0; start < passwords.length; start += CHUNK_SIZE) {
+    options.signal?.throwIfAborted();
+    passwords.slice(start, start + CHUNK_SIZE).forEach((password, i) => {
+      rows.push(toBatchRow(start + i + 1, password, options.policy));
+    });
+    options.onProgress?.(rows.length);
+    await new Promise(resolve => setTimeout(resolve));
+  }
+  return rows;
+}
+
+function countBy<T>(items: T[]): Map<T, number> {
+  const counts = new Map<T, number>();
+  for (const item of items) counts.set(item, (counts.get(item) ?? 0) + 1);
+  return counts;
+}
+
+export function summarizeBatch(rows: BatchRow[], topMasks = 10): BatchSummary {
+  const scores = [0, 0, 0, 0, 0];
+  rows.forEach(row => scores[row.score]++);
+
+  const masks = Array.from(countBy(rows.map(row => row.mask)), ([mask, count]) => ({ mask, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, topMasks);
+  const lengths = Array.from(countBy(rows.map(row => row.length)), ([length, count]) => ({ length, count }))
+    .sort((a, b) => a.length - b.length);
+
+  const withPolicy = rows.filter(row => row.policy);
+  const policy = withPolicy.length > 0
+    ? { pass: 0, fail: 0, skipped: 0, ...Object.fromEntries(countBy(withPolicy.map(row => row.policy))) }
+    : undefined;
+
+  return {
+    count: rows.length,
+    averageScore: rows.length ? rows.reduce((sum, row) => sum + row.score, 0) / rows.length : 0,
+    scores,
+    masks,
+    lengths,
+    policy,
+  };
+}
+
+const CSV_COLUMNS: (keyof BatchRow)[] = [
+  'index', 'password', 'score', 'strength', 'guesses', 'length', 'effectiveEntropy', 'mask', 'patterns', 'policy',
+];
+
+/**
+ * Spreadsheets run cells starting with these as formulas; such cells get a leading `'`,
+ * which the spreadsheet hides, so an exported password cannot execute on opening.
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  const raw = Array.isArray(value) ? value.join(' ') : String(value ?? '');
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function batchToCsv(rows: BatchRow[]): string {
+  const lines = rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+export function batchToJson(rows: BatchRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildBreachIndex, checkBreachIndex, readBreachIndex, readRangeSources } from './breachIndex';
+import { sha1Hex } from './hashes';
+
+// SHA-1 of "password" is 5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8
+const RANGE = ['1E4C9B93F3F0682250B6CF8331B7EE68FD8:9545824', '0000000000000000000000000000000000A:0'].join('\r\n');
+
+describe('breach index', () => {
+  it('finds a breached hash with its count', async () => {
+    const index = buildBreachIndex('sha1', [{ text: RANGE, prefix: '5BAA6' }]);
+    expect(await checkBreachIndex(index, 'password')).toEqual({ breached: true, count: 9545824 });
+    expect(await checkBreachIndex(index, 'not in the list')).toEqual({ breached: false, count: 0 });
+  });
+
+  it('treats count-0 padding entries as not breached', () => {
+    const index = buildBreachIndex('sha1', [{ text: RANGE, prefix: '5BAA6' }]);
+    expect(index.lookup('5BAA60000000000000000000000000000000000A')).toEqual({ breached: false, count: 0 });
+  });
+
+  it('survives a round trip through its bytes and merges newer counts', async () => {
+    const first = buildBreachIndex('sha1', [{ text: RANGE, prefix: '5BAA6' }]);
+    const merged = buildBreachIndex('sha1', [{ text: `${(await sha1Hex('password')).toUpperCase()}:10` }], readBreachIndex(first.bytes));
+    expect(merged.size).toBe(2);
+    expect(merged.lookup('5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8')).toEqual({ breached: true, count: 10 });
+  });
+
+  it('reads imported files with the prefix their name gives', async () => {
+    const sources = await readRangeSources([new File([RANGE], '5baa6.txt'), new File(['ABC:1'], 'hashes.txt')]);
+    expect(sources).toEqual([
+      { text: RANGE, prefix: '5BAA6' },
+      { text: 'ABC:1', prefix: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { ntlmHex, sha1Hex } from './hashes';
+
+/** The two hash formats Pwned Passwords publishes its range files in. */
+export type BreachHashType = 'sha1' | 'ntlm';
+
+export const BREACH_HASH_LABELS: Record<BreachHashType, string> = {
+  sha1: 'SHA-1',
+  ntlm: 'NTLM',
+};
+
+export const HASH_BYTES: Record<BreachHashType, number> = { sha1: 20, ntlm: 16 };
+
+/** `count` is how often the password appears in the corpus; 0 when it does not. */
+export interface BreachResult {
+  breached: boolean;
+  count: number;
+}
+
+/**
+ * Imported breach hashes as one sorted binary file: a 16-byte header ('SPSB', version,
+ * hash type, record count), then fixed-width records of hash bytes and a big-endian
+ * uint32 count, so lookups are a binary search with no parsing.
+ */
+export interface BreachIndex {
+  hashType: BreachHashType;
+  size: number;
+  /** Total occurrences across every record, for display. */
+  occurrences: number;
+  bytes: Uint8Array;
+  lookup(hashHex: string): BreachResult;
+}
+
+const MAGIC = [0x53, 0x50, 0x53, 0x42];
+const VERSION = 1;
+const HEADER_BYTES = 16;
+const HASH_TYPE_CODES: BreachHashType[] = ['sha1', 'ntlm'];
+
+function recordBytes(hashType: BreachHashType): number {
+  return HASH_BYTES[hashType] + 4;
+}
+
+function compareAt(a: Uint8Array, aOffset: number, b: Uint8Array, bOffset: number, length: number): number {
+  for (let i = 0; i < length; i++) {
+    const difference = a[aOffset + i] - b[bOffset + i];
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function hexToBytes(hex: string, target: Uint8Array, offset: number): boolean {
+  if (!/^[0-9A-F]*$/i.test(hex)) return false;
+  for (let i = 0; i < hex.length; i += 2) {
+    target[offset + i / 2] = parseInt(hex.slice(i, i + 2), 16);
+  }
+  return true;
+}
+
+/** Reads a file written by `buildBreachIndex`, or throws if it is not one. */
+export function readBreachIndex(bytes: Uint8Array): BreachIndex {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < HEADER_BYTES || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Not a breach index file');
+  }
+  if (bytes[4] !== VERSION) {
+    throw new Error(`Unsupported breach index version ${bytes[4]}`);
+  }
+  const hashType = HASH_TYPE_CODES[bytes[5]];
+  if (!hashType) {
+    throw new Error(`Unknown hash type ${bytes[5]} in breach index`);
+  }
+  const size = view.getUint32(8);
+  const width = recordBytes(hashType);
+  const hashLength = HASH_BYTES[hashType];
+  if (bytes.length !== HEADER_BYTES + size * width) {
+    throw new Error('Breach index has the wrong length');
+  }
+
+  let occurrences = 0;
+  for (let i = 0; i < size; i++) occurrences += view.getUint32(HEADER_BYTES + i * width + hashLength);
+
+  const key = new Uint8Array(hashLength);
+  return {
+    hashType,
+    size,
+    occurrences,
+    bytes,
+    lookup(hashHex) {
+      if (hashHex.length !== hashLength * 2 || !hexToBytes(hashHex, key, 0)) {
+        throw new Error(`Expected a ${BREACH_HASH_LABELS[hashType]} hash`);
+      }
+      let low = 0;
+      let high = size - 1;
+      while (low <= high) {
+        const middle = (low + high) >>> 1;
+        const offset = HEADER_BYTES + middle * width;
+        const order = compareAt(bytes, offset, key, 0, hashLength);
+        if (order === 0) {
+          const count = view.getUint32(offset + hashLength);
+          // Padded range files list decoy hashes with a count of 0
+          return { breached: count > 0, count };
+        }
+        if (order < 0) low = middle + 1;
+        else high = middle - 1;
+      }
+      return { breached: false, count: 0 };
+    },
+  };
+}
+
+/** One imported text file: a range file named after its prefix, or full `HASH:COUNT` lines. */
+export interface RangeSource {
+  text: string;
+  /** The 5-character prefix the suffixes in `text` share, for range files. */
+  prefix?: string;
+}
+
+/** The prefix a downloaded range file is named after, e.g. `21BD1.txt`. */
+export function rangePrefixFromFileName(name: string): string | undefined {
+  return /^([0-9A-F]{5})(\.txt)?$/i.exec(name.split(/[\\/]/).pop() ?? '')?.[1].toUpperCase();
+}
+
+/** Reads imported text files as range sources, taking prefixes from their names. */
+export async function readRangeSources(files: File[]): Promise<RangeSource[]> {
+  return Promise.all(files.map(async file => ({ text: await file.text(), prefix: rangePrefixFromFileName(file.name) })));
+}
+
+/**
+ * Merges range files into a new index. Entries in `base` are kept; a hash that appears
+ * again takes the count of its last occurrence, so re-importing newer data updates it.
+ */
+export function buildBreachIndex(
+  hashType: BreachHashType,
+  sources: RangeSource[],
+  base?: BreachIndex
+): BreachIndex {
+  if (base && base.hashType !== hashType) {
+    throw new Error(`Cannot merge ${BREACH_HASH_LABELS[hashType]} hashes into a ${BREACH_HASH_LABELS[base.hashType]} index`);
+  }
+  const hashLength = HASH_BYTES[hashType];
+  const width = recordBytes(hashType);
+
+  let records = new Uint8Array(((base?.size ?? 0) + 1024) * width);
+  let view = new DataView(records.buffer);
+  let size = 0;
+  if (base) {
+    records.set(base.bytes.subarray(HEADER_BYTES));
+    size = base.size;
+  }
+
+  for (const [sourceIndex, source] of sources.entries()) {
+    const prefix = source.prefix?.toUpperCase() ?? '';
+    for (const [lineIndex, rawLine] of source.text.split('\n').entries()) {
+      const line = rawLine.trim();
+      if (!line) continue;
+      const [suffix, countText = '1'] = line.split(':');
+      const hex = prefix + suffix.toUpperCase();
+      const count = Number(countText);
+      if ((size + 1) * width > records.length) {
+        const grown = new Uint8Array(records.length * 2);
+        grown.set(records);
+        records = grown;
+        view = new DataView(records.buffer);
+      }
+      const valid = hex.length === hashLength * 2 && hexToBytes(hex, records, size * width);
+      if (!valid || !Number.isInteger(count) || count < 0) {
+        throw new Error(`Line ${lineIndex + 1} of file ${sourceIndex + 1} is not a ${BREACH_HASH_LABELS[hashType]} range entry`);
+      }
+      view.setUint32(size * width + hashLength, Math.min(count, 0xffffffff));
+      size++;
+    }
+  }
+
+  // Ties keep insertion order, so the last occurrence of a hash ends up last in its run
+  const order = Array.from({ length: size }, (_, i) => i);
+  order.sort((a, b) => compareAt(records, a * width, records, b * width, hashLength) || a - b);
+
+  const unique: number[] = [];
+  for (const record of order) {
+    const previous = unique[unique.length - 1];
+    if (previous !== undefined && compareAt(records, previous * width, records, record * width, hashLength) === 0) {
+      unique[unique.length - 1] = record;
+    } else {
+      unique.push(record);
+    }
+  }
+
+  const bytes = new Uint8Array(HEADER_BYTES + unique.length * width);
+  bytes.set(MAGIC);
+  bytes[4] = VERSION;
+  bytes[5] = HASH_TYPE_CODES.indexOf(hashType);
+  new DataView(bytes.buffer).setUint32(8, unique.length);
+  unique.forEach((record, i) => {
+    bytes.set(records.subarray(record * width, (record + 1) * width), HEADER_BYTES + i * width);
+  });
+  return readBreachIndex(bytes);
+}
+
+/** Looks the password up in an offline index, hashing it the way the index is keyed. */
+export async function checkBreachIndex(index: BreachIndex, password: string): Promise<BreachResult> {
+  const hash = index.hashType === 'sha1' ? await sha1Hex(password) : ntlmHex(password);
+  return index.lookup(hash);
+}
@@ -0,0 +1,100 @@
+import { QueryClient } from '@tanstack/react-query';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BreachCheckError, createRangeProvider, fetchRange, findInRange } from './breachProvider';
+
+// SHA-1 of "password" is 5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8
+const SUFFIX = '1E4C9B93F3F0682250B6CF8331B7EE68FD8';
+const RANGE = [`${SUFFIX}:9545824`, '0000000000000000000000000000000000A:0'].join('\r\n');
+const OPTIONS = { endpoint: 'https://range.test/range/', hashType: 'sha1' as const, padding: true };
+
+const stubFetch = (respond: () => Promise<Response>) => {
+  const fetch = vi.fn(respond);
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+// Retries wait for react-query's backoff otherwise
+const queryClient = () => new QueryClient({ defaultOptions: { queries: { retryDelay: 0 } } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchRange', () => {
+  it('asks for padding and the NTLM mode', async () => {
+    const fetch = stubFetch(async () => new Response(RANGE));
+    expect(await fetchRange('5BAA6', OPTIONS)).toBe(RANGE);
+    await fetchRange('8846F', { ...OPTIONS, hashType: 'ntlm', padding: false });
+
+    const [[sha1Url, sha1Init], [ntlmUrl, ntlmInit]] = fetch.mock.calls as unknown as [URL, RequestInit][];
+    expect(String(sha1Url)).toBe('https://range.test/range/5BAA6');
+    expect(sha1Init.headers).toEqual({ 'Add-Padding': 'true' });
+    expect(String(ntlmUrl)).toBe('https://range.test/range/8846F?mode=ntlm');
+    expect(ntlmInit.headers).toEqual({});
+  });
+
+  it('reads Retry-After as seconds or as a date', async () => {
+    stubFetch(async () => new Response('', { status: 429, headers: { 'Retry-After': '30' } }));
+    await expect(fetchRange('5BAA6', OPTIONS)).rejects.toMatchObject({ kind: 'rate-limited', retryAfterMs: 30_000 });
+
+    const later = new Date(Date.now() + 120_000).toUTCString();
+    stubFetch(async () => new Response('', { status: 429, headers: { 'Retry-After': later } }));
+    const error: BreachCheckError = await fetchRange('5BAA6', OPTIONS).catch(e => e);
+    expect(error.retryAfterMs).toBeGreaterThan(100_000);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(120_000);
+  });
+
+  it('reports network and server failures by kind', async () => {
+    stubFetch(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    await expect(fetchRange('5BAA6', OPTIONS)).rejects.toMatchObject({ kind: 'offline' });
+
+    stubFetch(async () => new Response('', { status: 503 }));
+    await expect(fetchRange('5BAA6', OPTIONS)).rejects.toMatchObject({ kind: 'server' });
+  });
+});
+
+describe('findInRange', () => {
+  it('finds a suffix in CRLF-separated lines', () => {
+    expect(findInRange(RANGE, SUFFIX)).toEqual({ breached: true, count: 9545824 });
+    expect(findInRange(RANGE.toLowerCase(), SUFFIX)).toEqual({ breached: true, count: 9545824 });
+  });
+
+  it('treats padding and missing suffixes as not breached', () => {
+    expect(findInRange(RANGE, '0000000000000000000000000000000000A')).toEqual({ breached: false, count: 0 });
+    expect(findInRange(RANGE, 'F'.repeat(35))).toEqual({ breached: false, count: 0 });
+  });
+});
+
+describe('createRangeProvider', () => {
+  it('retries server errors but not rate limiting', async () => {
+    const failing = stubFetch(async () => new Response('', { status: 500 }));
+    const provider = createRangeProvider(queryClient(), { ...OPTIONS, retries: 2 });
+    await expect(provider.check('password')).rejects.toMatchObject({ kind: 'server' });
+    expect(failing).toHaveBeenCalledTimes(3);
+
+    const limited = stubFetch(async () => new Response('', { status: 429 }));
+    await expect(createRangeProvider(queryClient(), OPTIONS).check('password')).rejects.toMatchObject({
+      kind: 'rate-limited',
+    });
+    expect(limited).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets other checks of the same range finish when one is aborted', async () => {
+    let respond: (response: Response) => void;
+    const fetch = stubFetch(() => new Promise<Response>(resolve => (respond = resolve)));
+    const provider = createRangeProvider(queryClient(), OPTIONS);
+
+    const controller = new AbortController();
+    const aborted = provider.check('password', controller.signal);
+    const other = provider.check('password');
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+    controller.abort(new DOMException('Aborted', 'AbortError'));
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    respond(new Response(RANGE));
+    expect(await other).toEqual({ breached: true, count: 9545824 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
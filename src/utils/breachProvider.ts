@@ -0,0 +1,186 @@
+import { QueryClient } from '@tanstack/react-query';
+import { BREACH_HASH_LABELS, BreachHashType, BreachIndex, BreachResult, checkBreachIndex } from './breachIndex';
+import { ntlmHex, sha1Hex } from './hashes';
+
+/** Where a breach lookup can fail, so each can be reported on its own terms. */
+export type BreachErrorKind = 'offline' | 'rate-limited' | 'server' | 'no-data';
+
+export class BreachCheckError extends Error {
+  kind: BreachErrorKind;
+  /** For `rate-limited`, how long the server asked us to wait. */
+  retryAfterMs?: number;
+
+  constructor(kind: BreachErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'BreachCheckError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Answers whether a password is in a breach corpus. Rejects with `BreachCheckError` or the signal's reason. */
+export interface BreachProvider {
+  id: string;
+  label: string;
+  check(password: string, signal?: AbortSignal): Promise<BreachResult>;
+}
+
+export interface RangeProviderOptions {
+  /** Range API base URL; the 5-character hash prefix is appended to it. */
+  endpoint: string;
+  hashType: BreachHashType;
+  /** Send `Add-Padding`, so response sizes do not hint at the prefix. */
+  padding: boolean;
+  /** How long a fetched range is reused before it is fetched again. */
+  ttlMs: number;
+  /** Attempts after the first for network and server errors. */
+  retries: number;
+}
+
+export const DEFAULT_RANGE_ENDPOINT = 'https://api.pwnedpasswords.com/range/';
+
+export const DEFAULT_RANGE_OPTIONS: RangeProviderOptions = {
+  endpoint: DEFAULT_RANGE_ENDPOINT,
+  hashType: 'sha1',
+  padding: true,
+  ttlMs: 60 * 60 * 1000,
+  retries: 2,
+};
+
+function retryAfter(response: Response): number | undefined {
+  const value = response.headers.get('Retry-After');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Fetches one range as `SUFFIX:COUNT` lines, translating failures into `BreachCheckError`s. */
+export async function fetchRange(
+  prefix: string,
+  options: Pick<RangeProviderOptions, 'endpoint' | 'hashType' | 'padding'>,
+  signal?: AbortSignal
+): Promise<string> {
+  const url = new URL(`${options.endpoint}${prefix}`, globalThis.location?.href);
+  if (options.hashType === 'ntlm') url.searchParams.set('mode', 'ntlm');
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: options.padding ? { 'Add-Padding': 'true' } : {}, signal });
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    throw new BreachCheckError('offline', `Could not reach ${url.host}: ${(error as Error).message}`);
+  }
+
+  if (response.status === 429) {
+    throw new BreachCheckError('rate-limited', 'The breach service is rate limiting requests', retryAfter(response));
+  }
+  if (!response.ok) {
+    throw new BreachCheckError('server', `The breach service answered ${response.status} ${response.statusText}`.trim());
+  }
+  return response.text();
+}
+
+/** The count for `suffix` in a range response. Padding entries have a count of 0 and never match. */
+export function findInRange(range: string, suffix: string): BreachResult {
+  for (const line of range.split('\n')) {
+    const [hashSuffix, countText] = line.trim().split(':');
+    if (hashSuffix?.toUpperCase() === suffix) {
+      const count = parseInt(countText, 10) || 0;
+      return { breached: count > 0, count };
+    }
+  }
+  return { breached: false, count: 0 };
+}
+
+/** Settles as `promise` does, or rejects with the signal's reason once it aborts. The work itself carries on. */
+function unlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * A k-anonymity range API (Have I Been Pwned, or a mirror speaking the same protocol).
+ * Ranges are cached in `queryClient` for `ttlMs`, so passwords sharing a prefix and
+ * repeated checks cost one request.
+ */
+export function createRangeProvider(
+  queryClient: QueryClient,
+  overrides: Partial<RangeProviderOptions> = {}
+): BreachProvider {
+  const options = { ...DEFAULT_RANGE_OPTIONS, ...overrides };
+  const host = new URL(options.endpoint, globalThis.location?.href).host;
+
+  return {
+    id: `range:${options.endpoint}`,
+    label: `${host} (${BREACH_HASH_LABELS[options.hashType]})`,
+    async check(password, signal) {
+      const hash = options.hashType === 'sha1' ? await sha1Hex(password) : ntlmHex(password);
+      const prefix = hash.slice(0, 5);
+      const queryKey = ['breach-range', options.endpoint, options.hashType, options.padding, prefix];
+
+      // Other checks may be waiting on the same range, so an abort only stops waiting;
+      // cancelling the query would fail them too
+      signal?.throwIfAborted();
+      const range = await unlessAborted(
+        queryClient.fetchQuery({
+          queryKey,
+          queryFn: ({ signal: querySignal }) => fetchRange(prefix, options, querySignal),
+          staleTime: options.ttlMs,
+          gcTime: options.ttlMs,
+          retry: (failures, error) =>
+            failures < options.retries && error instanceof BreachCheckError && error.kind !== 'rate-limited',
+        }),
+        signal
+      );
+      return findInRange(range, hash.slice(5));
+    },
+  };
+}
+
+/** Checks against breach data imported into this browser; nothing leaves the device. */
+export function createIndexProvider(index: BreachIndex | undefined): BreachProvider {
+  return {
+    id: `index:${index?.hashType ?? 'none'}`,
+    label: index ? `Offline ${BREACH_HASH_LABELS[index.hashType]} data` : 'Offline data',
+    async check(password, signal) {
+      if (!index) {
+        throw new BreachCheckError('no-data', 'Import Pwned Passwords range files before checking offline');
+      }
+      signal?.throwIfAborted();
+      return checkBreachIndex(index, password);
+    },
+  };
+}
+
+/** The online lookup settings a user can change; kept in localStorage. */
+export type BreachSettings = Pick<RangeProviderOptions, 'endpoint' | 'hashType' | 'padding'>;
+
+const SETTINGS_KEY = 'strong-pass-scanner:breach-settings';
+
+/** Saved settings, falling back to `VITE_BREACH_RANGE_ENDPOINT` for deployments with a mirror. */
+export function loadBreachSettings(): BreachSettings {
+  const defaults: BreachSettings = {
+    endpoint: import.meta.env.VITE_BREACH_RANGE_ENDPOINT || DEFAULT_RANGE_ENDPOINT,
+    hashType: DEFAULT_RANGE_OPTIONS.hashType,
+    padding: DEFAULT_RANGE_OPTIONS.padding,
+  };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveBreachSettings(settings: BreachSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Private windows may refuse storage; the settings then last for this visit only
+  }
+}
@@ -0,0 +1,71 @@
+import { BreachHashType, BreachIndex, readBreachIndex } from './breachIndex';
+
+const DATABASE = 'strong-pass-scanner';
+const STORE = 'breach-indexes';
+
+interface StoredIndex {
+  hashType: BreachHashType;
+  bytes: Uint8Array;
+  importedAt: number;
+}
+
+export interface StoredBreachIndex {
+  index: BreachIndex;
+  importedAt: Date;
+}
+
+function request<T>(pending: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    pending.onsuccess = () => resolve(pending.result);
+    pending.onerror = () => reject(pending.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const opening = indexedDB.open(DATABASE, 1);
+    opening.onupgradeneeded = () => {
+      opening.result.createObjectStore(STORE, { keyPath: 'hashType' });
+    };
+    database = request(opening).catch(error => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+}
+
+async function transact<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+/** Whether this environment can keep imported breach data, e.g. not in some private windows. */
+export function breachStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/** The imported indexes, one per hash type. Corrupt entries are dropped rather than thrown. */
+export async function loadStoredBreachIndexes(): Promise<StoredBreachIndex[]> {
+  const stored = await transact<StoredIndex[]>('readonly', store => store.getAll());
+  return stored.flatMap(entry => {
+    try {
+      return [{ index: readBreachIndex(entry.bytes), importedAt: new Date(entry.importedAt) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** Stores `index`, replacing any earlier index of the same hash type. */
+export async function saveBreachIndex(index: BreachIndex): Promise<StoredBreachIndex> {
+  const entry: StoredIndex = { hashType: index.hashType, bytes: index.bytes, importedAt: Date.now() };
+  await transact('readwrite', store => store.put(entry));
+  return { index, importedAt: new Date(entry.importedAt) };
+}
+
+export async function deleteBreachIndex(hashType: BreachHashType): Promise<void> {
+  await transact('readwrite', store => store.delete(hashType));
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { findDates } from './dates';
+
+const read = (password: string) =>
+  findDates(password).map(({ token, day, month, year }) => ({ token, day, month, year }));
+
+describe('findDates', () => {
+  it('reads a four-digit year at either end', () => {
+    for (const password of ['2015-12-25', '25.12.2015', '20151225', '25122015']) {
+      expect(read(password)).toEqual([{ token: password, day: 25, month: 12, year: 2015 }]);
+    }
+  });
+
+  it('expands two-digit years and swaps day and month when only one order fits', () => {
+    expect(read('12/25/99')).toEqual([{ token: '12/25/99', day: 25, month: 12, year: 1999 }]);
+    expect(read('311299')).toEqual([{ token: '311299', day: 31, month: 12, year: 1999 }]);
+  });
+
+  it('finds bare years in range and prices them below full dates', () => {
+    const [year] = findDates('pass1990word');
+    expect(year).toMatchObject({ token: '1990', start: 4, end: 8, year: 1990 });
+    expect(year.day).toBeUndefined();
+    expect(year.guesses).toBeLessThan(findDates('1990-05-17')[0].guesses);
+  });
+
+  it('charges separated dates for the separator', () => {
+    const [plain] = findDates('19900517');
+    const [separated] = findDates('1990-05-17');
+    expect(separated.separator).toBe('-');
+    expect(separated.guesses).toBe(plain.guesses * 4);
+  });
+
+  it('drops a year inside a longer date', () => {
+    expect(findDates('25122015').map(match => match.token)).toEqual(['25122015']);
+  });
+});
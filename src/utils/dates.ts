@@ -0,0 +1,163 @@
+import type { PatternMatch } from './passwordAnalysis';
+
+export const DATE_MIN_YEAR = 1900;
+export const DATE_MAX_YEAR = 2099;
+
+// Even a year right next to the current one is picked from a couple of decades.
+const MIN_YEAR_SPACE = 20;
+
+const SEPARATED_DATE = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/;
+const YEAR = /19\d\d|20\d\d/g;
+
+// Where to cut an unseparated run of digits into three parts, by run length.
+const DATE_SPLITS: Record<number, [number, number][]> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]],
+};
+
+interface DayMonthYear {
+  day: number;
+  month: number;
+  year: number;
+}
+
+function twoToFourDigitYear(year: number): number {
+  if (year > 99) return year;
+  if (year > 50) return 1900 + year;
+  return 2000 + year;
+}
+
+function toDayMonth(first: number, second: number): { day: number; month: number } | null {
+  for (const [day, month] of [[first, second], [second, first]]) {
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) return { day, month };
+  }
+  return null;
+}
+
+/**
+ * Reads three integers as a date in any of DMY, MDY or YMD order. A four-digit year is
+ * preferred; otherwise a two-digit year at either end is expanded.
+ */
+function toDayMonthYear(parts: number[]): DayMonthYear | null {
+  if (parts[1] > 31 || parts[1] <= 0) return null;
+
+  let over12 = 0;
+  let over31 = 0;
+  let under1 = 0;
+  for (const part of parts) {
+    if ((part > 99 && part < DATE_MIN_YEAR) || part > DATE_MAX_YEAR) return null;
+    if (part > 31) over31++;
+    if (part > 12) over12++;
+    if (part <= 0) under1++;
+  }
+  if (over31 >= 2 || over12 === 3 || under1 >= 2) return null;
+
+  const yearSplits: [number, number[]][] = [
+    [parts[2], parts.slice(0, 2)],
+    [parts[0], parts.slice(1, 3)],
+  ];
+
+  for (const [year, rest] of yearSplits) {
+    if (year < DATE_MIN_YEAR || year > DATE_MAX_YEAR) continue;
+    const dayMonth = toDayMonth(rest[0], rest[1]);
+    if (dayMonth) return { ...dayMonth, year };
+  }
+
+  for (const [year, rest] of yearSplits) {
+    const dayMonth = toDayMonth(rest[0], rest[1]);
+    if (dayMonth) return { ...dayMonth, year: twoToFourDigitYear(year) };
+  }
+
+  return null;
+}
+
+function yearSpace(year: number): number {
+  return Math.max(Math.abs(year - new Date().getFullYear()), MIN_YEAR_SPACE);
+}
+
+function dateMatch(password: string, start: number, end: number, date: DayMonthYear, separator: string): PatternMatch {
+  return {
+    kind: 'date',
+    start,
+    end,
+    token: password.slice(start, end),
+    guesses: yearSpace(date.year) * 365 * (separator ? 4 : 1),
+    ...date,
+    separator,
+  };
+}
+
+function findFullDates(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const referenceYear = new Date().getFullYear();
+
+  for (let start = 0; start <= password.length - 4; start++) {
+    for (let end = start + 4; end <= Math.min(start + 8, password.length); end++) {
+      const token = password.slice(start, end);
+      if (!/^\d+$/.test(token)) break;
+
+      const candidates = DATE_SPLITS[token.length]
+        .map(([k, l]) => toDayMonthYear([token.slice(0, k), token.slice(k, l), token.slice(l)].map(Number)))
+        .filter(Boolean);
+      if (candidates.length === 0) continue;
+
+      // Several readings may be valid; the one closest to today is the likeliest.
+      const best = candidates.reduce((a, b) =>
+        Math.abs(b.year - referenceYear) < Math.abs(a.year - referenceYear) ? b : a
+      );
+      matches.push(dateMatch(password, start, end, best, ''));
+    }
+  }
+
+  for (let start = 0; start <= password.length - 6; start++) {
+    for (let end = start + 6; end <= Math.min(start + 10, password.length); end++) {
+      const parts = SEPARATED_DATE.exec(password.slice(start, end));
+      if (!parts) continue;
+
+      const date = toDayMonthYear([parts[1], parts[3], parts[4]].map(Number));
+      if (date) matches.push(dateMatch(password, start, end, date, parts[2]));
+    }
+  }
+
+  return matches;
+}
+
+function findYears(password: string): PatternMatch[] {
+  return Array.from(password.matchAll(YEAR), match => {
+    const year = Number(match[0]);
+    return {
+      kind: 'date' as const,
+      start: match.index,
+      end: match.index + match[0].length,
+      token: match[0],
+      guesses: yearSpace(year),
+      year,
+    };
+  });
+}
+
+/**
+ * Finds full dates (with or without separators, two- or four-digit years) and bare
+ * years from 1900 to 2099. The cheapest reading of each span is kept, and matches
+ * inside a longer date are dropped.
+ */
+export function findDates(password: string): PatternMatch[] {
+  const bySpan = new Map<string, PatternMatch>();
+  for (const match of [...findFullDates(password), ...findYears(password)]) {
+    const span = `${match.start}:${match.end}`;
+    const existing = bySpan.get(span);
+    if (!existing || match.guesses < existing.guesses) bySpan.set(span, match);
+  }
+
+  const dates = Array.from(bySpan.values());
+  return dates.filter(date =>
+    !dates.some(other =>
+      other !== date &&
+      other.start <= date.start &&
+      other.end >= date.end
+    )
+  );
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createRankedDictionary, getLoadedDictionaries, loadDictionary, setDictionaryLoader } from './dictionary';
+import { findDictionaryWords } from './passwordAnalysis';
+import { buildTrie, searchTrie } from './trie';
+
+describe('searchTrie', () => {
+  it('finds every listed word inside the text, keeping the first rank of a duplicate', () => {
+    const trie = buildTrie(['pass', 'password', 'word', 'pass']);
+    expect(searchTrie(trie, 'mypassword')).toEqual([
+      { start: 2, end: 6, rank: 1 },
+      { start: 2, end: 10, rank: 2 },
+      { start: 6, end: 10, rank: 3 },
+    ]);
+  });
+
+  it('steps over astral characters whole', () => {
+    expect(searchTrie(buildTrie(['🔑key']), 'a🔑key')).toEqual([{ start: 1, end: 6, rank: 1 }]);
+  });
+});
+
+describe('loadDictionary', () => {
+  it('fetches each list once and registers it for analysis', async () => {
+    const loader = vi.fn(async () => ['dragon', 'monkey']);
+    setDictionaryLoader(loader);
+    const [first, second] = await Promise.all([loadDictionary('passwords'), loadDictionary('passwords')]);
+    expect(first).toBe(second);
+    expect(await loadDictionary('passwords')).toBe(first);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(getLoadedDictionaries().map(dictionary => dictionary.name)).toEqual(['passwords']);
+  });
+});
+
+describe('findDictionaryWords', () => {
+  const dictionaries = [createRankedDictionary('passwords', ['password', 'pass', 'word'])];
+
+  it('prices a word by its rank and capitalisation', () => {
+    const [plain] = findDictionaryWords('password', dictionaries);
+    const [capitalised] = findDictionaryWords('Password', dictionaries);
+    expect(plain).toMatchObject({ token: 'password', matchedWord: 'password', rank: 1, guesses: 1 });
+    expect(capitalised.guesses).toBeGreaterThan(plain.guesses);
+  });
+
+  it('drops words inside a longer word that is no harder to guess', () => {
+    expect(findDictionaryWords('password', dictionaries).map(match => match.token)).toEqual(['password']);
+    // Words are at least three letters
+    expect(findDictionaryWords('xyz', [createRankedDictionary('short', ['xy'])])).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { loadTextAsset } from './assets';
+import { buildTrie, searchTrie } from './trie';
+
+export type BuiltInDictionaryName = 'passwords' | 'english' | 'first-names' | 'surnames' | 'tv-and-film';
+
+export const BUILT_IN_DICTIONARIES: BuiltInDictionaryName[] = [
+  'passwords',
+  'english',
+  'first-names',
+  'surnames',
+  'tv-and-film',
+];
+
+export const DICTIONARY_LABELS: Record<string, string> = {
+  passwords: 'Common passwords',
+  english: 'English words',
+  'first-names': 'First names',
+  surnames: 'Surnames',
+  'tv-and-film': 'TV & film',
+  'user-inputs': 'About you',
+};
+
+export interface DictionaryHit {
+  start: number;
+  end: number;
+  word: string;
+  rank: number;
+}
+
+/** A ranked word list that can be searched for every word inside a string. */
+export interface Dictionary {
+  name: string;
+  size: number;
+  /** Finds every word in `text`, which callers are expected to have lowercased. */
+  findWords(text: string): DictionaryHit[];
+}
+
+/** Fetches the words of a built-in dictionary, most common first. */
+export type DictionaryLoader = (name: BuiltInDictionaryName) => Promise<string[]>;
+
+export function createRankedDictionary(name: string, words: string[]): Dictionary {
+  const trie = buildTrie(words);
+  return {
+    name,
+    size: words.length,
+    findWords: text =>
+      searchTrie(trie, text).map(hit => ({ ...hit, word: text.slice(hit.start, hit.end) })),
+  };
+}
+
+async function loadDictionaryAsset(name: BuiltInDictionaryName): Promise<string[]> {
+  const text = await loadTextAsset(`dictionaries/${name}.txt.gz`);
+  return text.split('\n').filter(Boolean);
+}
+
+let loader: DictionaryLoader = loadDictionaryAsset;
+const registry = new Map<string, Dictionary>();
+const pending = new Map<BuiltInDictionaryName, Promise<Dictionary>>();
+
+/** Replaces where built-in dictionaries come from, e.g. a custom word list source. */
+export function setDictionaryLoader(next: DictionaryLoader) {
+  loader = next;
+}
+
+/** Adds a dictionary to every subsequent analysis, replacing one with the same name. */
+export function registerDictionary(dictionary: Dictionary) {
+  registry.set(dictionary.name, dictionary);
+}
+
+export function unregisterDictionary(name: string) {
+  registry.delete(name);
+}
+
+export function loadDictionary(name: BuiltInDictionaryName): Promise<Dictionary> {
+  const existing = registry.get(name);
+  if (existing) return Promise.resolve(existing);
+
+  let request = pending.get(name);
+  if (!request) {
+    request = loader(name)
+      .then(words => {
+        const dictionary = createRankedDictionary(name, words);
+        registerDictionary(dictionary);
+        return dictionary;
+      })
+      .finally(() => pending.delete(name));
+    pending.set(name, request);
+  }
+  return request;
+}
+
+/** Loads the built-in dictionaries in parallel. Already loaded ones resolve immediately. */
+export function loadDictionaries(
+  names: BuiltInDictionaryName[] = BUILT_IN_DICTIONARIES
+): Promise<Dictionary[]> {
+  return Promise.all(names.map(loadDictionary));
+}
+
+/** Dictionaries that are in memory now. Analysis only searches these. */
+export function getLoadedDictionaries(): Dictionary[] {
+  return Array.from(registry.values());
+}
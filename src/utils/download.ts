@@ -0,0 +1,14 @@
+/** Saves a blob as a file through a temporary object URL; nothing leaves the browser. */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL must outlive it
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+export function downloadText(filename: string, text: string, type = 'text/plain'): void {
+  downloadBlob(filename, new Blob([text], { type }));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { bruteForceEntropy, effectiveEntropy, getPoolSize } from './entropy';
+import { PatternMatch } from './passwordAnalysis';
+
+const match = (start: number, end: number, guesses: number): PatternMatch => ({
+  kind: 'dictionary',
+  start,
+  end,
+  token: '',
+  guesses,
+});
+
+describe('bruteForceEntropy', () => {
+  it('is length times log2 of the classes present', () => {
+    expect(getPoolSize('abc')).toBe(26);
+    expect(getPoolSize('aB3!')).toBe(95);
+    expect(bruteForceEntropy('abcdefgh')).toBeCloseTo(8 * Math.log2(26));
+    expect(bruteForceEntropy('')).toBe(0);
+  });
+
+  it('adds other scripts and counts graphemes, not code units', () => {
+    expect(getPoolSize('пароль')).toBe(66);
+    // Two family emoji of several code points each are two characters
+    expect(bruteForceEntropy('👨‍👩‍👧👨‍👩‍👧')).toBeCloseTo(2 * Math.log2(3600));
+  });
+});
+
+describe('effectiveEntropy', () => {
+  it('charges a matched span its guesses instead of its characters', () => {
+    const bits = effectiveEntropy('passwordxy', [match(0, 8, 1024)]);
+    expect(bits).toBeCloseTo(10 + 2 * Math.log2(26));
+  });
+
+  it('picks the cheapest cover of overlapping matches', () => {
+    const matches = [match(0, 6, 2 ** 20), match(0, 3, 4), match(3, 6, 4)];
+    expect(effectiveEntropy('abcdef', matches)).toBeCloseTo(4);
+  });
+
+  it('never charges more than brute force', () => {
+    expect(effectiveEntropy('abcdef', [match(0, 6, 2 ** 40)])).toBeCloseTo(bruteForceEntropy('abcdef'));
+  });
+});
@@ -0,0 +1,135 @@
+import type { PatternMatch } from './passwordAnalysis';
+import { scriptOf, splitGraphemes } from './unicode';
+
+// Printable ASCII (0x20-0x7E) is 95 characters: 26 + 26 + 10 + 33 symbols including space.
+export const LOWERCASE_POOL = 26;
+export const UPPERCASE_POOL = 26;
+export const DIGIT_POOL = 10;
+export const ASCII_SYMBOL_POOL = 33;
+
+interface UnicodeBlock {
+  name: string;
+  start: number;
+  end: number;
+}
+
+// Letters a native keyboard or IME offers, both cases included. Han and Hangul count the
+// characters in everyday use rather than every code point assigned to them.
+const SCRIPT_POOLS: Record<string, number> = {
+  Latin: 64,
+  Greek: 48,
+  Cyrillic: 66,
+  Armenian: 76,
+  Hebrew: 27,
+  Arabic: 36,
+  Devanagari: 64,
+  Bengali: 60,
+  Thai: 68,
+  Georgian: 33,
+  Hangul: 2350,
+  Hiragana: 86,
+  Katakana: 90,
+  Han: 3500,
+  Emoji: 3600,
+};
+
+// Blocks for characters outside those scripts. Anything else counts its 256-code-point page.
+const UNICODE_BLOCKS: UnicodeBlock[] = [
+  { name: 'Latin-1 Supplement', start: 0x00a0, end: 0x00ff },
+  { name: 'Latin Extended-A', start: 0x0100, end: 0x017f },
+  { name: 'Latin Extended-B', start: 0x0180, end: 0x024f },
+  { name: 'Greek and Coptic', start: 0x0370, end: 0x03ff },
+  { name: 'Cyrillic', start: 0x0400, end: 0x04ff },
+  { name: 'Hebrew', start: 0x0590, end: 0x05ff },
+  { name: 'Arabic', start: 0x0600, end: 0x06ff },
+  { name: 'Devanagari', start: 0x0900, end: 0x097f },
+  { name: 'Thai', start: 0x0e00, end: 0x0e7f },
+  { name: 'General Punctuation', start: 0x2000, end: 0x206f },
+  { name: 'Hiragana', start: 0x3040, end: 0x309f },
+  { name: 'Katakana', start: 0x30a0, end: 0x30ff },
+  { name: 'CJK Unified Ideographs', start: 0x4e00, end: 0x9fff },
+  { name: 'Hangul Syllables', start: 0xac00, end: 0xd7af },
+  { name: 'Emoji', start: 0x1f300, end: 0x1faff },
+];
+
+function unicodeBlockOf(codePoint: number): UnicodeBlock {
+  const known = UNICODE_BLOCKS.find(block => codePoint >= block.start && codePoint <= block.end);
+  if (known) return known;
+
+  const start = codePoint & ~0xff;
+  return { name: `U+${start.toString(16).toUpperCase()}`, start, end: start + 0xff };
+}
+
+/**
+ * Size of the alphabet an attacker would have to search, built from every character
+ * class that appears in the password. Letters of other scripts add that script's
+ * alphabet; remaining non-ASCII characters add their Unicode block.
+ */
+export function getPoolSize(password: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += LOWERCASE_POOL;
+  if (/[A-Z]/.test(password)) pool += UPPERCASE_POOL;
+  if (/[0-9]/.test(password)) pool += DIGIT_POOL;
+  if (/[ -/:-@[-`{-~]/.test(password)) pool += ASCII_SYMBOL_POOL;
+
+  const alphabets = new Map<string, number>();
+  for (const grapheme of splitGraphemes(password)) {
+    const codePoint = grapheme.codePointAt(0);
+    if (codePoint < 0x80) continue;
+
+    const script = scriptOf(grapheme);
+    if (SCRIPT_POOLS[script]) {
+      alphabets.set(script, SCRIPT_POOLS[script]);
+      continue;
+    }
+    const block = unicodeBlockOf(codePoint);
+    alphabets.set(block.name, block.end - block.start + 1);
+  }
+  for (const size of alphabets.values()) pool += size;
+
+  return pool;
+}
+
+/** Length in grapheme clusters, the characters a person would count. */
+export function symbolLength(password: string): number {
+  return splitGraphemes(password).length;
+}
+
+/** Brute-force entropy in bits: `length * log2(poolSize)`. */
+export function bruteForceEntropy(password: string): number {
+  const pool = getPoolSize(password);
+  if (pool === 0) return 0;
+  return symbolLength(password) * Math.log2(pool);
+}
+
+/**
+ * Pattern-aware entropy in bits. Each character costs `log2(poolSize)` unless it is
+ * covered by a matched pattern, in which case the whole span costs `log2(guesses)`.
+ * The cheapest non-overlapping cover of the password is used.
+ */
+export function effectiveEntropy(password: string, matches: PatternMatch[]): number {
+  const pool = getPoolSize(password);
+  if (pool === 0) return 0;
+  const bitsPerChar = Math.log2(pool);
+
+  // Matches are indexed by UTF-16 offsets, so the cover is too. Only the code unit that
+  // starts a grapheme is charged, keeping the total consistent with `bruteForceEntropy`.
+  const graphemeStarts = new Set<number>();
+  let offset = 0;
+  for (const grapheme of splitGraphemes(password)) {
+    graphemeStarts.add(offset);
+    offset += grapheme.length;
+  }
+
+  const best = new Array<number>(password.length + 1).fill(Infinity);
+  best[0] = 0;
+  for (let i = 1; i <= password.length; i++) {
+    best[i] = best[i - 1] + (graphemeStarts.has(i - 1) ? bitsPerChar : 0);
+    for (const match of matches) {
+      if (match.end !== i) continue;
+      best[i] = Math.min(best[i], best[match.start] + Math.log2(Math.max(match.guesses, 1)));
+    }
+  }
+
+  return best[password.length];
+}
@@ -0,0 +1,50 @@
+/** Formats a guess count as a power of ten, e.g. `10^7.3`. */
+export function formatGuesses(guesses: number): string {
+  if (!Number.isFinite(guesses)) return 'beyond model';
+  if (guesses < 1000) return Math.round(guesses).toLocaleString();
+  return `10^${Math.log10(guesses).toFixed(1)}`;
+}
+
+const DURATION_UNITS: [string, number][] = [
+  ['century', 100 * 365.25 * 24 * 3600],
+  ['year', 365.25 * 24 * 3600],
+  ['month', 30.44 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/** Formats seconds as the largest whole unit, e.g. `3 days` or `12 centuries`. */
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return 'forever';
+  if (seconds < 1) return 'instant';
+
+  for (const [unit, size] of DURATION_UNITS) {
+    if (seconds < size) continue;
+    const count = Math.floor(seconds / size);
+    if (unit === 'century') {
+      return count >= 1e6 ? `${count.toExponential(1)} centuries` : `${count.toLocaleString()} ${count === 1 ? 'century' : 'centuries'}`;
+    }
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+  }
+  return 'instant';
+}
+
+const RATE_SUFFIXES: [string, number][] = [
+  ['T', 1e12],
+  ['B', 1e9],
+  ['M', 1e6],
+  ['K', 1e3],
+];
+
+/** Formats a guessing rate, e.g. `22B/sec`. */
+export function formatRate(guessesPerSecond: number): string {
+  for (const [suffix, size] of RATE_SUFFIXES) {
+    if (guessesPerSecond >= size) {
+      const value = guessesPerSecond / size;
+      return `${value >= 100 ? Math.round(value) : Number(value.toPrecision(2))}${suffix}/sec`;
+    }
+  }
+  return `${Number(guessesPerSecond.toPrecision(2))}/sec`;
+}
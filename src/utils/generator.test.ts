@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GENERATION_POLICY, describeSpace, generatePassword, GenerationPolicy } from './generator';
+
+const policy = (changes: Partial<GenerationPolicy>): GenerationPolicy => ({ ...DEFAULT_GENERATION_POLICY, ...changes });
+
+// 300 extra symbols make a 362-character alphabet: 128 characters of it is over 1,080 bits
+const WIDE_SYMBOLS = Array.from({ length: 300 }, (_, i) => String.fromCharCode(0x100 + i)).join('');
+
+describe('describeSpace', () => {
+  it('counts small spaces exactly', () => {
+    const space = describeSpace(policy({ length: 2, minCounts: { digits: 1 } }));
+    expect(space.size).toBe(100n);
+    expect(space.entropy).toBeCloseTo(Math.log2(100));
+  });
+
+  it('stays finite past 2^1024', () => {
+    const space = describeSpace(policy({ length: 128, symbols: WIDE_SYMBOLS }));
+    expect(space.size > 2n ** 1024n).toBe(true);
+    expect(Number.isFinite(space.entropy)).toBe(true);
+    expect(space.entropy).toBeCloseTo(128 * Math.log2(362), 0);
+  });
+
+  it('refuses lengths and minimums beyond the limits', () => {
+    expect(() => describeSpace(policy({ length: 200 }))).toThrow(RangeError);
+    expect(() => describeSpace(policy({ minCounts: { lowercase: 30 } }))).toThrow(RangeError);
+  });
+
+  it('refuses policies too large to count', () => {
+    const minCounts = { lowercase: 16, uppercase: 16, digits: 16, symbols: 16 };
+    expect(() => describeSpace(policy({ length: 128, minCounts, maxConsecutive: 2 }))).toThrow(/too complex/);
+  });
+});
+
+describe('generatePassword', () => {
+  it('draws from every class when the space overflows a double', () => {
+    const wide = policy({ length: 128, symbols: WIDE_SYMBOLS });
+    const passwords = Array.from({ length: 10 }, () => generatePassword(wide));
+    for (const password of passwords) expect(Array.from(password)).toHaveLength(128);
+    // About 62 in 362 characters are letters or digits. With counts at Infinity the last
+    // option won every draw, leaving only the three the minimums force at the end.
+    const alphanumeric = passwords.join('').match(/[A-Za-z0-9]/g).length;
+    expect(alphanumeric).toBeGreaterThan(100);
+  });
+
+  it('meets minimums, run limits and forbidden substrings', () => {
+    const constrained = policy({
+      length: 24,
+      minCounts: { lowercase: 4, digits: 4, symbols: 2 },
+      maxConsecutive: 1,
+      forbiddenSubstrings: ['abc', '12'],
+    });
+    for (let i = 0; i < 50; i++) {
+      const password = generatePassword(constrained);
+      expect(password.match(/[a-z]/g)?.length).toBeGreaterThanOrEqual(4);
+      expect(password.match(/\d/g)?.length).toBeGreaterThanOrEqual(4);
+      expect(password.match(/[!@#$%^&*]/g)?.length).toBeGreaterThanOrEqual(2);
+      expect(password).not.toMatch(/(.)\1/);
+      expect(password).not.toMatch(/abc|12/);
+    }
+  });
+
+  it('throws when no password satisfies the policy', () => {
+    expect(() => generatePassword(policy({ length: 2, minCounts: { lowercase: 2, digits: 1 } }))).toThrow(
+      'No password satisfies these constraints'
+    );
+  });
+});
@@ -0,0 +1,349 @@
+import { randomBigInt, randomChoice } from './random';
+
+export type GeneratorClass = 'lowercase' | 'uppercase' | 'digits' | 'symbols';
+
+export const GENERATOR_CLASSES: GeneratorClass[] = ['lowercase', 'uppercase', 'digits', 'symbols'];
+
+export const DEFAULT_SYMBOLS = '!@#$%^&*';
+
+/**
+ * Longest password and largest per-class minimum the generator accepts. Counting the
+ * space costs roughly length × the product of (minimum + 1) over the classes.
+ */
+export const MAX_GENERATED_LENGTH = 128;
+export const MAX_CLASS_MINIMUM = 16;
+
+/** Most transitions counting may follow; larger policies are refused rather than hung on. */
+const MAX_COUNTED_TRANSITIONS = 4_000_000;
+
+/** Constraints a generated password has to meet. */
+export interface GenerationPolicy {
+  length: number;
+  /** Classes to draw from, each with the fewest characters it must contribute. */
+  minCounts: Partial<Record<GeneratorClass, number>>;
+  /** The characters the `symbols` class draws from. */
+  symbols: string;
+  /** Characters never to use, e.g. look-alikes such as `0O1lI`. */
+  exclude: string;
+  /** Longest run of one repeated character; 0 for no limit. */
+  maxConsecutive: number;
+  /** Substrings the output may not contain, compared case-insensitively. */
+  forbiddenSubstrings: string[];
+}
+
+export const DEFAULT_GENERATION_POLICY: GenerationPolicy = {
+  length: 16,
+  minCounts: { lowercase: 1, uppercase: 1, digits: 1, symbols: 1 },
+  symbols: DEFAULT_SYMBOLS,
+  exclude: '',
+  maxConsecutive: 0,
+  forbiddenSubstrings: [],
+};
+
+export interface GenerationSpace {
+  alphabetSize: number;
+  /** Number of distinct passwords that satisfy the policy; exact, so it may pass 2^1024. */
+  size: bigint;
+  /** `log2(size)`: the entropy of a password drawn uniformly from that space. */
+  entropy: number;
+}
+
+const CLASS_CHARACTERS: Record<Exclude<GeneratorClass, 'symbols'>, string> = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+};
+
+/** Characters sharing a transition: one special character, or several interchangeable ones. */
+interface TransitionGroup {
+  /** `char` is a single special character; `repeat` is the previous character again. */
+  kind: 'char' | 'plain' | 'repeat' | 'plainExceptLast';
+  char?: string;
+  classIndex: number;
+  size: number;
+  next: number;
+}
+
+interface Tail {
+  node: number;
+  /** Last character if special, `plain:<class>` if plain, empty without a run limit. */
+  last: string;
+  run: number;
+}
+
+/**
+ * The space of valid passwords, counted by dynamic programming over the state
+ * (automaton node for forbidden substrings, current run, characters still owed per
+ * class). Characters that appear in no forbidden substring are interchangeable
+ * within their class, which keeps the number of states small.
+ */
+interface CompiledPolicy {
+  length: number;
+  classes: { chars: string[]; plain: string[]; special: string[]; min: number }[];
+  maxConsecutive: number;
+  transitions(tail: number): TransitionGroup[];
+  completions(remaining: number, tail: number, owed: number): bigint;
+  advanceOwed(owed: number, classIndex: number): number;
+}
+
+function buildAutomaton(patterns: string[]) {
+  const children: Map<string, number>[] = [new Map()];
+  const terminal: boolean[] = [false];
+  for (const pattern of patterns) {
+    let node = 0;
+    for (const char of pattern) {
+      if (!children[node].has(char)) {
+        children.push(new Map());
+        terminal.push(false);
+        children[node].set(char, children.length - 1);
+      }
+      node = children[node].get(char);
+    }
+    terminal[node] = true;
+  }
+
+  // Breadth-first failure links; a node is terminal if any suffix of it is a pattern
+  const fail = new Array<number>(children.length).fill(0);
+  const queue = Array.from(children[0].values());
+  while (queue.length) {
+    const node = queue.shift();
+    for (const [char, child] of children[node]) {
+      let f = fail[node];
+      while (f && !children[f].has(char)) f = fail[f];
+      fail[child] = children[f].get(char) ?? 0;
+      terminal[child] = terminal[child] || terminal[fail[child]];
+      queue.push(child);
+    }
+  }
+
+  const step = (node: number, char: string): number => {
+    let current = node;
+    while (current && !children[current].has(char)) current = fail[current];
+    return children[current].get(char) ?? 0;
+  };
+  return { step, terminal };
+}
+
+function compilePolicy(policy: GenerationPolicy): CompiledPolicy {
+  if (policy.length > MAX_GENERATED_LENGTH) {
+    throw new RangeError(`Passwords are limited to ${MAX_GENERATED_LENGTH} characters`);
+  }
+  if (Object.values(policy.minCounts).some(min => min > MAX_CLASS_MINIMUM)) {
+    throw new RangeError(`Each type can require at most ${MAX_CLASS_MINIMUM} characters`);
+  }
+
+  const excluded = new Set(policy.exclude);
+  const patterns = policy.forbiddenSubstrings.map(s => s.toLowerCase()).filter(Boolean);
+  const patternChars = new Set(patterns.join(''));
+  const automaton = buildAutomaton(patterns);
+
+  const classes = GENERATOR_CLASSES.filter(name => policy.minCounts[name] !== undefined).map(name => {
+    const source = name === 'symbols' ? policy.symbols.replace(/[A-Za-z0-9]/g, '') : CLASS_CHARACTERS[name];
+    const chars = Array.from(new Set(source)).filter(char => !excluded.has(char));
+    return {
+      chars,
+      plain: chars.filter(char => !patternChars.has(char.toLowerCase())),
+      special: chars.filter(char => patternChars.has(char.toLowerCase())),
+      min: Math.max(0, policy.minCounts[name]),
+    };
+  });
+
+  // A limit the password is too short to reach only adds states
+  const limited = policy.maxConsecutive > 0 && policy.maxConsecutive < policy.length;
+
+  // Characters still owed per class, packed into one mixed-radix number
+  const radices = classes.map(c => c.min + 1);
+  const space = radices.reduce((product, radix) => product * radix, 1);
+  const advanceOwed = (owed: number, classIndex: number) => {
+    let place = 1;
+    for (let i = 0; i < classIndex; i++) place *= radices[i];
+    const digit = Math.floor(owed / place) % radices[classIndex];
+    return digit > 0 ? owed - place : owed;
+  };
+  const totalOwed = (owed: number) => {
+    let total = 0;
+    for (const radix of radices) {
+      total += owed % radix;
+      owed = Math.floor(owed / radix);
+    }
+    return total;
+  };
+
+  const tails: Tail[] = [];
+  const tailIds = new Map<string, number>();
+  const tailId = (tail: Tail) => {
+    const key = `${tail.node}|${tail.last}|${tail.run}`;
+    if (!tailIds.has(key)) {
+      tailIds.set(key, tails.length);
+      tails.push(tail);
+    }
+    return tailIds.get(key);
+  };
+  tailId({ node: 0, last: '', run: 0 });
+
+  const transitionCache = new Map<number, TransitionGroup[]>();
+  const transitions = (id: number): TransitionGroup[] => {
+    const cached = transitionCache.get(id);
+    if (cached) return cached;
+
+    const tail = tails[id];
+    const groups: TransitionGroup[] = [];
+    const follow = (node: number, last: string, continues: boolean) => {
+      if (automaton.terminal[node]) return -1;
+      if (!limited) return tailId({ node, last: '', run: 0 });
+      const run = continues ? tail.run + 1 : 1;
+      return run > policy.maxConsecutive ? -1 : tailId({ node, last, run });
+    };
+
+    classes.forEach((cls, classIndex) => {
+      for (const char of cls.special) {
+        const next = follow(automaton.step(tail.node, char.toLowerCase()), char, tail.last === char);
+        if (next >= 0) groups.push({ kind: 'char', char, classIndex, size: 1, next });
+      }
+      if (cls.plain.length === 0) return;
+
+      // Plain characters never advance the automaton, so all of them lead back to its root
+      const last = `plain:${classIndex}`;
+      if (limited && tail.last === last) {
+        const repeat = follow(0, last, true);
+        if (repeat >= 0) groups.push({ kind: 'repeat', classIndex, size: 1, next: repeat });
+        if (cls.plain.length > 1) {
+          groups.push({ kind: 'plainExceptLast', classIndex, size: cls.plain.length - 1, next: follow(0, last, false) });
+        }
+      } else {
+        groups.push({ kind: 'plain', classIndex, size: cls.plain.length, next: follow(0, last, false) });
+      }
+    });
+
+    transitionCache.set(id, groups);
+    return groups;
+  };
+
+  const memo: Map<number, bigint>[] = [];
+  let counted = 0;
+  const completions = (remaining: number, tail: number, owed: number): bigint => {
+    if (totalOwed(owed) > remaining) return 0n;
+    if (remaining === 0) return 1n;
+
+    memo[remaining] ??= new Map();
+    const key = tail * space + owed;
+    const cached = memo[remaining].get(key);
+    if (cached !== undefined) return cached;
+
+    const groups = transitions(tail);
+    counted += groups.length;
+    if (counted > MAX_COUNTED_TRANSITIONS) {
+      throw new RangeError('These constraints are too complex to count; lower the minimums, the length or the forbidden substrings');
+    }
+    let total = 0n;
+    for (const group of groups) {
+      total += BigInt(group.size) * completions(remaining - 1, group.next, advanceOwed(owed, group.classIndex));
+    }
+    memo[remaining].set(key, total);
+    return total;
+  };
+
+  return {
+    length: policy.length,
+    classes,
+    maxConsecutive: policy.maxConsecutive,
+    transitions,
+    completions,
+    advanceOwed,
+  };
+}
+
+// Compiled policies keep their counts, so drawing again from the same policy is cheap
+const COMPILED_CACHE_SIZE = 8;
+const compiledCache = new Map<string, CompiledPolicy>();
+
+function compiled(policy: GenerationPolicy): CompiledPolicy {
+  const key = JSON.stringify(policy);
+  let entry = compiledCache.get(key);
+  if (entry) {
+    compiledCache.delete(key);
+  } else {
+    entry = compilePolicy(policy);
+    if (compiledCache.size >= COMPILED_CACHE_SIZE) compiledCache.delete(compiledCache.keys().next().value);
+  }
+  compiledCache.set(key, entry);
+  return entry;
+}
+
+/** `log2(value)` for integers too large to convert to a number. */
+export function bigLog2(value: bigint): number {
+  const bits = value.toString(2).length;
+  const shift = Math.max(0, bits - 53);
+  return Math.log2(Number(value >> BigInt(shift))) + shift;
+}
+
+function initialOwed(compiled: CompiledPolicy): number {
+  let owed = 0;
+  let place = 1;
+  for (const cls of compiled.classes) {
+    owed += cls.min * place;
+    place *= cls.min + 1;
+  }
+  return owed;
+}
+
+/** Counts the passwords the policy allows. The entropy is exact, not an estimate. */
+export function describeSpace(policy: GenerationPolicy): GenerationSpace {
+  const space = compiled(policy);
+  const size = space.completions(policy.length, 0, initialOwed(space));
+  return {
+    alphabetSize: space.classes.reduce((sum, cls) => sum + cls.chars.length, 0),
+    size,
+    entropy: size > 0n ? bigLog2(size) : 0,
+  };
+}
+
+/**
+ * Draws a password uniformly from every password the policy allows. Each character is
+ * chosen with probability proportional to the number of valid completions it leaves,
+ * so constraints are met by construction rather than by retrying or patching output.
+ */
+export function generatePassword(policy: GenerationPolicy): string {
+  const space = compiled(policy);
+  let owed = initialOwed(space);
+  let tail = 0;
+  if (space.completions(policy.length, tail, owed) === 0n) {
+    throw new Error('No password satisfies these constraints');
+  }
+
+  const output: string[] = [];
+  for (let remaining = policy.length; remaining > 0; remaining--) {
+    const options = space.transitions(tail).map(group => {
+      const nextOwed = space.advanceOwed(owed, group.classIndex);
+      return { group, nextOwed, weight: BigInt(group.size) * space.completions(remaining - 1, group.next, nextOwed) };
+    });
+    const total = options.reduce((sum, option) => sum + option.weight, 0n);
+
+    let target = randomBigInt(total);
+    let chosen = options[0];
+    for (const option of options) {
+      if (option.weight === 0n) continue;
+      chosen = option;
+      target -= option.weight;
+      if (target < 0n) break;
+    }
+
+    const { group } = chosen;
+    const plain = space.classes[group.classIndex].plain;
+    const previous = output[output.length - 1];
+    if (group.kind === 'char') {
+      output.push(group.char);
+    } else if (group.kind === 'repeat') {
+      output.push(previous);
+    } else if (group.kind === 'plainExceptLast') {
+      output.push(randomChoice(plain.filter(char => char !== previous)));
+    } else {
+      output.push(randomChoice(plain));
+    }
+
+    tail = group.next;
+    owed = chosen.nextOwed;
+  }
+
+  return output.join('');
+}
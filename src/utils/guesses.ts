@@ -0,0 +1,25 @@
+export function nCk(n: number, k: number): number {
+  if (k > n) return 0;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - k + d)) / d;
+  }
+  return result;
+}
+
+/**
+ * How many capitalisations of a lowercase word an attacker tries before reaching
+ * `token`. Common shapes (Capitalised, ALL CAPS, lasT) only double the guesses.
+ */
+export function uppercaseVariations(token: string): number {
+  if (token === token.toLowerCase()) return 1;
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || /^[^a-z]+$/.test(token)) return 2;
+
+  const upper = token.replace(/[^A-Z]/g, '').length;
+  const lower = token.replace(/[^a-z]/g, '').length;
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += nCk(upper + lower, i);
+  }
+  return variations;
+}
@@ -0,0 +1,67 @@
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/** Uppercase hex SHA-1 of the UTF-8 password, as Pwned Passwords keys it. */
+export async function sha1Hex(password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(password));
+  return toHex(new Uint8Array(digest));
+}
+
+function md4(message: Uint8Array): Uint8Array {
+  // Pad to 56 mod 64 bytes, then append the bit length as a 64-bit little-endian integer
+  const padded = new Uint8Array((((message.length + 8) >> 6) + 1) << 6);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, (message.length * 8) >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor((message.length * 8) / 2 ** 32), true);
+
+  const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+  const f = (x: number, y: number, z: number) => (x & y) | (~x & z);
+  const g = (x: number, y: number, z: number) => (x & y) | (x & z) | (y & z);
+  const h = (x: number, y: number, z: number) => x ^ y ^ z;
+
+  let [a, b, c, d] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  const x = new Array<number>(16);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) x[i] = view.getUint32(offset + i * 4, true);
+    const [aa, bb, cc, dd] = [a, b, c, d];
+
+    for (const i of [0, 4, 8, 12]) {
+      a = rotl(a + f(b, c, d) + x[i], 3);
+      d = rotl(d + f(a, b, c) + x[i + 1], 7);
+      c = rotl(c + f(d, a, b) + x[i + 2], 11);
+      b = rotl(b + f(c, d, a) + x[i + 3], 19);
+    }
+    for (const i of [0, 1, 2, 3]) {
+      a = rotl(a + g(b, c, d) + x[i] + 0x5a827999, 3);
+      d = rotl(d + g(a, b, c) + x[i + 4] + 0x5a827999, 5);
+      c = rotl(c + g(d, a, b) + x[i + 8] + 0x5a827999, 9);
+      b = rotl(b + g(c, d, a) + x[i + 12] + 0x5a827999, 13);
+    }
+    for (const i of [0, 2, 1, 3]) {
+      a = rotl(a + h(b, c, d) + x[i] + 0x6ed9eba1, 3);
+      d = rotl(d + h(a, b, c) + x[i + 8] + 0x6ed9eba1, 9);
+      c = rotl(c + h(d, a, b) + x[i + 4] + 0x6ed9eba1, 11);
+      b = rotl(b + h(c, d, a) + x[i + 12] + 0x6ed9eba1, 15);
+    }
+
+    [a, b, c, d] = [(a + aa) | 0, (b + bb) | 0, (c + cc) | 0, (d + dd) | 0];
+  }
+
+  const digest = new DataView(new ArrayBuffer(16));
+  [a, b, c, d].forEach((word, i) => digest.setUint32(i * 4, word, true));
+  return new Uint8Array(digest.buffer);
+}
+
+/** Uppercase hex NTLM hash (MD4 of the UTF-16LE password), as the NTLM range files key it. */
+export function ntlmHex(password: string): string {
+  const bytes = new Uint8Array(password.length * 2);
+  for (let i = 0; i < password.length; i++) {
+    const unit = password.charCodeAt(i);
+    bytes[i * 2] = unit & 0xff;
+    bytes[i * 2 + 1] = unit >> 8;
+  }
+  return toHex(md4(bytes));
+}
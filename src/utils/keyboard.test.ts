@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { findKeyboardWalks } from './keyboard';
+
+const walks = (password: string) => findKeyboardWalks(password).map(match => [match.token, match.layout]);
+
+describe('findKeyboardWalks', () => {
+  it('finds walks on the layout they were typed on', () => {
+    expect(walks('qwerty')).toEqual([['qwerty', 'qwerty']]);
+    expect(walks('azerty')).toEqual([['azerty', 'azerty']]);
+    expect(walks('qwertz')).toEqual([['qwertz', 'qwertz']]);
+    expect(walks('aoeuid')).toEqual([['aoeuid', 'dvorak']]);
+    expect(walks('hello')).toEqual([]);
+  });
+
+  it('counts turns and shifted keys, and prices both', () => {
+    const [straight] = findKeyboardWalks('qwerty');
+    const [shifted] = findKeyboardWalks('QWERTY');
+    const [turning] = findKeyboardWalks('zxcvfr');
+    expect(straight).toMatchObject({ turns: 1, shiftedCount: 0 });
+    expect(shifted).toMatchObject({ turns: 1, shiftedCount: 6 });
+    expect(turning).toMatchObject({ turns: 2, shiftedCount: 0 });
+    expect(shifted.guesses).toBeGreaterThan(straight.guesses);
+    expect(turning.guesses).toBeGreaterThan(straight.guesses);
+  });
+
+  it('keeps scanning after a walk ends', () => {
+    expect(walks('x qwer zxcv')).toEqual([['qwer', 'qwerty'], ['zxcv', 'qwerty']]);
+    expect(walks('7894561')).toEqual([['789', 'keypad'], ['456', 'keypad']]);
+  });
+
+  it('follows a walk back over the key where it turned', () => {
+    expect(findKeyboardWalks('qwertrewq')).toMatchObject([{ token: 'qwertrewq', start: 0, end: 9, turns: 2 }]);
+  });
+});
@@ -0,0 +1,249 @@
+import { nCk } from './guesses';
+import type { PatternMatch } from './passwordAnalysis';
+
+export type KeyboardLayoutName = 'qwerty' | 'azerty' | 'qwertz' | 'dvorak' | 'colemak' | 'keypad';
+
+/**
+ * Each key is a token of its unshifted and shifted characters. Rows of a slanted
+ * layout are indented one space more than the row above, so every key touches six
+ * neighbours; an aligned layout (the keypad) is a plain grid with eight.
+ */
+interface KeyboardLayout {
+  name: KeyboardLayoutName;
+  slanted: boolean;
+  rows: string[];
+}
+
+const LAYOUTS: KeyboardLayout[] = [
+  {
+    name: 'qwerty',
+    slanted: true,
+    rows: [
+      '`~ 1! 2@ 3# 4$ 5% 6^ 7& 8* 9( 0) -_ =+',
+      '    qQ wW eE rR tT yY uU iI oO pP [{ ]} \\|',
+      '     aA sS dD fF gG hH jJ kK lL ;: \'"',
+      '      zZ xX cC vV bB nN mM ,< .> /?',
+    ],
+  },
+  {
+    name: 'azerty',
+    slanted: true,
+    rows: [
+      '   &1 é2 "3 \'4 (5 -6 è7 _8 ç9 à0 )° =+',
+      '    aA zZ eE rR tT yY uU iI oO pP ^¨ $£',
+      '     qQ sS dD fF gG hH jJ kK lL mM ù% *µ',
+      '   <> wW xX cC vV bB nN ,? ;. :/ !§',
+    ],
+  },
+  {
+    name: 'qwertz',
+    slanted: true,
+    rows: [
+      '^° 1! 2" 3§ 4$ 5% 6& 7/ 8( 9) 0= ß? ´`',
+      '    qQ wW eE rR tT zZ uU iI oO pP üÜ +*',
+      '     aA sS dD fF gG hH jJ kK lL öÖ äÄ #\'',
+      '   <> yY xX cC vV bB nN mM ,; .: -_',
+    ],
+  },
+  {
+    name: 'dvorak',
+    slanted: true,
+    rows: [
+      '`~ 1! 2@ 3# 4$ 5% 6^ 7& 8* 9( 0) [{ ]}',
+      '    \'" ,< .> pP yY fF gG cC rR lL /? =+ \\|',
+      '     aA oO eE uU iI dD hH tT nN sS -_',
+      '      ;: qQ jJ kK xX bB mM wW vV zZ',
+    ],
+  },
+  {
+    name: 'colemak',
+    slanted: true,
+    rows: [
+      '`~ 1! 2@ 3# 4$ 5% 6^ 7& 8* 9( 0) -_ =+',
+      '    qQ wW fF pP gG jJ lL uU yY ;: [{ ]} \\|',
+      '     aA rR sS tT dD hH nN eE iI oO \'"',
+      '      zZ xX cC vV bB kK mM ,< .> /?',
+    ],
+  },
+  {
+    name: 'keypad',
+    slanted: false,
+    rows: [
+      '  / * -',
+      '7 8 9 +',
+      '4 5 6',
+      '1 2 3',
+      '  0 .',
+    ],
+  },
+];
+
+export interface AdjacencyGraph {
+  name: KeyboardLayoutName;
+  /** Neighbouring key tokens per character; the list index is the direction. */
+  neighbours: Map<string, (string | null)[]>;
+  /** Key token each character belongs to, used to tell shifted characters apart. */
+  keys: Map<string, string>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+function slantedNeighbourCoords(x: number, y: number): [number, number][] {
+  return [[x - 1, y], [x, y - 1], [x + 1, y - 1], [x + 1, y], [x, y + 1], [x - 1, y + 1]];
+}
+
+function alignedNeighbourCoords(x: number, y: number): [number, number][] {
+  return [
+    [x - 1, y], [x - 1, y - 1], [x, y - 1], [x + 1, y - 1],
+    [x + 1, y], [x + 1, y + 1], [x, y + 1], [x - 1, y + 1],
+  ];
+}
+
+function buildGraph(layout: KeyboardLayout): AdjacencyGraph {
+  const tokenSize = layout.rows[0].trim().split(/\s+/)[0].length;
+  const unit = tokenSize + 1;
+  const positions = new Map<string, string>();
+
+  layout.rows.forEach((line, y) => {
+    const slant = layout.slanted ? y : 0;
+    for (const match of line.matchAll(/\S+/g)) {
+      const x = (match.index - slant) / unit;
+      if (!Number.isInteger(x)) throw new Error(`Misaligned key ${match[0]} in ${layout.name} layout`);
+      positions.set(`${x},${y}`, match[0]);
+    }
+  });
+
+  const neighbourCoords = layout.slanted ? slantedNeighbourCoords : alignedNeighbourCoords;
+  const neighbours = new Map<string, (string | null)[]>();
+  const keys = new Map<string, string>();
+  let degreeSum = 0;
+
+  for (const [coord, key] of positions) {
+    const [x, y] = coord.split(',').map(Number);
+    const adjacent = neighbourCoords(x, y).map(([nx, ny]) => positions.get(`${nx},${ny}`) ?? null);
+    degreeSum += adjacent.filter(Boolean).length;
+    for (const char of key) {
+      neighbours.set(char, adjacent);
+      keys.set(char, key);
+    }
+  }
+
+  return {
+    name: layout.name,
+    neighbours,
+    keys,
+    startingPositions: positions.size,
+    averageDegree: degreeSum / positions.size,
+  };
+}
+
+export const KEYBOARD_GRAPHS: AdjacencyGraph[] = LAYOUTS.map(buildGraph);
+
+/**
+ * Counts the walks of the same length with at most as many turns, starting anywhere
+ * on the keyboard, then multiplies in the ways the shifted keys could be placed.
+ */
+export function keyboardWalkGuesses(
+  graph: AdjacencyGraph,
+  length: number,
+  turns: number,
+  shiftedCount: number
+): number {
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    const possibleTurns = Math.min(turns, i - 1);
+    for (let j = 1; j <= possibleTurns; j++) {
+      guesses += nCk(i - 1, j - 1) * graph.startingPositions * graph.averageDegree ** j;
+    }
+  }
+
+  if (shiftedCount > 0) {
+    const unshiftedCount = length - shiftedCount;
+    if (unshiftedCount === 0) {
+      guesses *= 2;
+    } else {
+      let variations = 0;
+      for (let i = 1; i <= Math.min(shiftedCount, unshiftedCount); i++) {
+        variations += nCk(length, i);
+      }
+      guesses *= variations;
+    }
+  }
+
+  return guesses;
+}
+
+function isShifted(graph: AdjacencyGraph, char: string): boolean {
+  return graph.keys.get(char)?.indexOf(char) === 1;
+}
+
+function findWalksOnGraph(password: string, graph: AdjacencyGraph): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const chars = Array.from(password);
+  let i = 0;
+
+  while (i < chars.length - 1) {
+    let j = i + 1;
+    let lastDirection = -1;
+    let turns = 0;
+    let shiftedCount = isShifted(graph, chars[i]) ? 1 : 0;
+
+    while (j < chars.length) {
+      const adjacent = graph.neighbours.get(chars[j - 1]) ?? [];
+      const direction = adjacent.findIndex(key => key?.includes(chars[j]));
+      if (direction === -1) break;
+
+      if (isShifted(graph, chars[j])) shiftedCount++;
+      if (direction !== lastDirection) {
+        turns++;
+        lastDirection = direction;
+      }
+      j++;
+    }
+
+    if (j - i >= 3) {
+      const start = chars.slice(0, i).join('').length;
+      const token = chars.slice(i, j).join('');
+      matches.push({
+        kind: 'keyboard',
+        start,
+        end: start + token.length,
+        token,
+        guesses: keyboardWalkGuesses(graph, j - i, turns, shiftedCount),
+        layout: graph.name,
+        turns,
+        shiftedCount,
+      });
+    }
+    // Restart on the walk's last key, so a walk sharing it with the next is not skipped
+    i = Math.max(j - 1, i + 1);
+  }
+
+  return matches;
+}
+
+/**
+ * Finds walks of three or more adjacent keys on every known layout. When several
+ * layouts explain the same span only the cheapest is kept, and walks that lie inside
+ * a longer walk found on another layout are dropped.
+ */
+export function findKeyboardWalks(password: string): PatternMatch[] {
+  const bySpan = new Map<string, PatternMatch>();
+
+  for (const graph of KEYBOARD_GRAPHS) {
+    for (const match of findWalksOnGraph(password, graph)) {
+      const span = `${match.start}:${match.end}`;
+      const existing = bySpan.get(span);
+      if (!existing || match.guesses < existing.guesses) bySpan.set(span, match);
+    }
+  }
+
+  const walks = Array.from(bySpan.values());
+  return walks.filter(walk =>
+    !walks.some(other =>
+      other !== walk &&
+      other.start <= walk.start &&
+      other.end >= walk.end
+    )
+  );
+}
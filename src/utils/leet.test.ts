@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createRankedDictionary } from './dictionary';
+import { enumerateLeetCandidates, LeetTable, leetVariations } from './leet';
+import { findDictionaryWords } from './passwordAnalysis';
+
+describe('enumerateLeetCandidates', () => {
+  it('replaces every occurrence of a substitute with the same letter', () => {
+    expect(enumerateLeetCandidates('p4$$w0rd')).toEqual([
+      { text: 'password', substitutions: { '0': 'o', '4': 'a', $: 's' } },
+    ]);
+    expect(enumerateLeetCandidates('plain')).toEqual([]);
+  });
+
+  it('gives one candidate per reading of an ambiguous character', () => {
+    expect(enumerateLeetCandidates('h3110').map(candidate => candidate.text)).toEqual(['heiio', 'hello']);
+  });
+
+  it('keeps the likeliest readings when ambiguous characters exceed the cap', () => {
+    // Seven characters read as a, or less often b: 128 readings against a cap of 64
+    const table: LeetTable = Object.fromEntries(Array.from('1234567', char => [char, ['a', 'b']]));
+    const candidates = enumerateLeetCandidates('1234567', table);
+    expect(candidates).toHaveLength(64);
+    expect(candidates[0].text).toBe('aaaaaaa');
+    // Exactly the 64 readings with at most three of the rarer letter
+    for (const { text } of candidates) expect(text.match(/b/g)?.length ?? 0).toBeLessThanOrEqual(3);
+    expect(candidates.map(candidate => candidate.text)).toContain('aaaaaab');
+  });
+});
+
+describe('leetVariations', () => {
+  it('doubles per fully substituted letter and counts the mixes of partial ones', () => {
+    expect(leetVariations('p4ssw0rd', { '4': 'a', '0': 'o' })).toBe(4);
+    // One $ and one s: either could be the substituted one
+    expect(leetVariations('pa$sword', { $: 's' })).toBe(2);
+  });
+});
+
+describe('findDictionaryWords with substitutions', () => {
+  const dictionaries = [createRankedDictionary('passwords', ['password', 'hello'])];
+
+  it('matches substituted words and prices the substitutions in', () => {
+    const [match] = findDictionaryWords('p4$$w0rd', dictionaries);
+    expect(match).toMatchObject({ token: 'p4$$w0rd', matchedWord: 'password', rank: 1, guesses: 8 });
+    expect(match.substitutions).toEqual({ '0': 'o', '4': 'a', $: 's' });
+    expect(findDictionaryWords('h3110', dictionaries)[0]).toMatchObject({ matchedWord: 'hello' });
+  });
+});
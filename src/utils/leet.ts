@@ -0,0 +1,102 @@
+import { nCk } from './guesses';
+
+/**
+ * Maps each substitute character to the letters it may stand for, most likely first. Keys
+ * and values are single characters so substituted text keeps the offsets of the original.
+ */
+export type LeetTable = Record<string, string[]>;
+
+export const DEFAULT_LEET_TABLE: LeetTable = {
+  '4': ['a'],
+  '@': ['a'],
+  '8': ['b'],
+  '(': ['c'],
+  '{': ['c'],
+  '[': ['c'],
+  '<': ['c'],
+  '3': ['e'],
+  '6': ['g'],
+  '9': ['g'],
+  '1': ['i', 'l'],
+  '!': ['i', 'l'],
+  '|': ['i', 'l'],
+  '7': ['l', 't'],
+  '0': ['o'],
+  '$': ['s'],
+  '5': ['s'],
+  '+': ['t'],
+  '%': ['x'],
+  '2': ['z'],
+};
+
+// Ambiguous mappings multiply the candidates; beyond this the least likely are dropped.
+const MAX_CANDIDATES = 64;
+
+let leetTable: LeetTable = DEFAULT_LEET_TABLE;
+
+export function setLeetTable(table: LeetTable) {
+  leetTable = table;
+}
+
+export function getLeetTable(): LeetTable {
+  return leetTable;
+}
+
+export interface LeetCandidate {
+  text: string;
+  /** Substitute character → letter, for every substitute that was replaced. */
+  substitutions: Record<string, string>;
+}
+
+/**
+ * Enumerates de-l33ted versions of `text`. Every occurrence of a substitute character
+ * is replaced by the same letter, and each ambiguous character yields one candidate per
+ * letter it may stand for. Candidates come most likely first: a candidate is as rare as
+ * the sum of its letters' places in the table.
+ */
+export function enumerateLeetCandidates(text: string, table: LeetTable = leetTable): LeetCandidate[] {
+  const present = Object.keys(table).filter(char => text.includes(char));
+  if (present.length === 0) return [];
+
+  // Rarity only grows as characters are added, so pruning each round keeps the overall best
+  let mappings: { substitutions: Record<string, string>; rarity: number }[] = [{ substitutions: {}, rarity: 0 }];
+  for (const char of present) {
+    mappings = mappings
+      .flatMap(({ substitutions, rarity }) =>
+        table[char].map((letter, place) => ({ substitutions: { ...substitutions, [char]: letter }, rarity: rarity + place }))
+      )
+      .sort((a, b) => a.rarity - b.rarity)
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  return mappings.map(({ substitutions }) => ({
+    text: Array.from(text, char => substitutions[char] ?? char).join(''),
+    substitutions,
+  }));
+}
+
+/**
+ * Extra guesses for trying substitutions on a dictionary word: for each substitution,
+ * the ways its substituted and plain letters can be mixed. A fully substituted letter
+ * only doubles the guesses.
+ */
+export function leetVariations(token: string, substitutions: Record<string, string>): number {
+  const lower = token.toLowerCase();
+  let variations = 1;
+
+  for (const [substitute, letter] of Object.entries(substitutions)) {
+    const substituted = Array.from(lower).filter(char => char === substitute).length;
+    const plain = Array.from(lower).filter(char => char === letter).length;
+    if (substituted === 0 || plain === 0) {
+      variations *= 2;
+    } else {
+      let possibilities = 0;
+      for (let i = 1; i <= Math.min(substituted, plain); i++) {
+        possibilities += nCk(substituted + plain, i);
+      }
+      variations *= possibilities;
+    }
+  }
+
+  return variations;
+}
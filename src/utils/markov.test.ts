@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeMarkov, EMPTY_MARKOV_ANALYSIS, isNgramModelLoaded, NgramModel, setNgramModel } from './markov';
+
+// Trained on "ab" and "aa"
+const MODEL: NgramModel = {
+  version: 1,
+  order: 2,
+  start: '^',
+  end: '$',
+  trainedOn: 2,
+  grams: { a: 3, b: 1, '^a': 2, ab: 1, aa: 1, a$: 1, b$: 1 },
+};
+
+describe('analyzeMarkov', () => {
+  it('is empty until a model is loaded', () => {
+    expect(isNgramModelLoaded()).toBe(false);
+    expect(analyzeMarkov('password')).toBe(EMPTY_MARKOV_ANALYSIS);
+  });
+
+  it('interpolates the uniform, 1-gram and 2-gram estimates', () => {
+    setNgramModel(MODEL);
+    const [first] = analyzeMarkov('ab').perCharacter;
+    // Weights 0.01, 0.09 and 0.3 over an alphabet of a, b and one unseen slot
+    expect(first.probability).toBeCloseTo((0.01 / 3 + 0.09 * (3 / 4) + 0.3 * (2 / 2)) / 0.4);
+    expect(first.surprisal).toBeCloseTo(-Math.log2(first.probability));
+  });
+
+  it('finds trained strings likelier than unseen ones and counts the end', () => {
+    setNgramModel(MODEL);
+    const trained = analyzeMarkov('ab');
+    const unseen = analyzeMarkov('ba');
+    expect(trained.totalBits).toBeLessThan(unseen.totalBits);
+
+    const characterBits = trained.perCharacter.reduce((sum, c) => sum + c.surprisal, 0);
+    expect(trained.totalBits).toBeGreaterThan(characterBits);
+    expect(trained.averageSurprisal).toBeCloseTo(trained.totalBits / 2);
+  });
+
+  it('scores lowercase text and multiplies guesses by the capitalisation', () => {
+    setNgramModel(MODEL);
+    const lower = analyzeMarkov('ab');
+    const upper = analyzeMarkov('Ab');
+    expect(upper.totalBits).toBe(lower.totalBits);
+    expect(lower.guesses).toBeCloseTo(2 ** lower.totalBits);
+    expect(upper.guesses).toBeGreaterThan(lower.guesses);
+  });
+
+  it('lists the likeliest transitions, leaving out the first character', () => {
+    setNgramModel(MODEL);
+    const { predictableTransitions } = analyzeMarkov('aab');
+    expect(predictableTransitions.map(t => `${t.context}>${t.char}`)).toEqual(['a>a', 'a>b']);
+  });
+});
@@ -0,0 +1,177 @@
+import { loadTextAsset } from './assets';
+import { uppercaseVariations } from './guesses';
+
+/** The trained model as shipped in `public/models/ngram.json.gz`. */
+export interface NgramModel {
+  version: number;
+  order: number;
+  /** Padding before the first character and marker after the last. */
+  start: string;
+  end: string;
+  trainedOn: number;
+  /** Counts of every 1- to `order`-gram in the training passwords, lowercased. */
+  grams: Record<string, number>;
+}
+
+export interface MarkovCharacter {
+  position: number;
+  char: string;
+  probability: number;
+  /** `-log2(probability)`: how many bits of surprise the character adds. */
+  surprisal: number;
+}
+
+export interface MarkovTransition {
+  position: number;
+  context: string;
+  char: string;
+  probability: number;
+}
+
+export interface MarkovAnalysis {
+  /** False until the model has been loaded; every other field is then empty. */
+  available: boolean;
+  order: number;
+  perCharacter: MarkovCharacter[];
+  /** Surprisal of the whole password, including its end. */
+  totalBits: number;
+  averageSurprisal: number;
+  /** Roughly `1 / P(password)`, multiplied by its capitalisation variants. */
+  guesses: number;
+  /** The likeliest transitions in the password, most predictable first. */
+  predictableTransitions: MarkovTransition[];
+}
+
+interface CompiledModel {
+  order: number;
+  start: string;
+  end: string;
+  grams: Map<string, number>;
+  contextTotals: Map<string, number>;
+  unigramTotal: number;
+  alphabetSize: number;
+}
+
+// Interpolation weights for the uniform distribution, then 1-grams up to `order`-grams.
+const INTERPOLATION_WEIGHTS = [0.01, 0.09, 0.3, 0.6];
+const PREDICTABLE_TRANSITIONS = 3;
+
+export const EMPTY_MARKOV_ANALYSIS: MarkovAnalysis = {
+  available: false,
+  order: 0,
+  perCharacter: [],
+  totalBits: 0,
+  averageSurprisal: 0,
+  guesses: 0,
+  predictableTransitions: [],
+};
+
+let compiled: CompiledModel | null = null;
+let pending: Promise<void> | null = null;
+
+function compileNgramModel(model: NgramModel): CompiledModel {
+  const grams = new Map(Object.entries(model.grams));
+  const contextTotals = new Map<string, number>();
+  let unigramTotal = 0;
+  let alphabetSize = 0;
+
+  for (const [gram, count] of grams) {
+    const chars = Array.from(gram);
+    if (chars.length === 1) {
+      unigramTotal += count;
+      alphabetSize++;
+      continue;
+    }
+    const context = chars.slice(0, -1).join('');
+    contextTotals.set(context, (contextTotals.get(context) ?? 0) + count);
+  }
+
+  return {
+    order: model.order,
+    start: model.start,
+    end: model.end,
+    grams,
+    contextTotals,
+    unigramTotal,
+    // One extra slot for characters never seen in training
+    alphabetSize: alphabetSize + 1,
+  };
+}
+
+export function setNgramModel(model: NgramModel) {
+  compiled = compileNgramModel(model);
+}
+
+export function isNgramModelLoaded(): boolean {
+  return compiled !== null;
+}
+
+export function loadNgramModel(): Promise<void> {
+  if (compiled) return Promise.resolve();
+  if (!pending) {
+    pending = loadTextAsset('models/ngram.json.gz')
+      .then(text => setNgramModel(JSON.parse(text)))
+      .finally(() => {
+        pending = null;
+      });
+  }
+  return pending;
+}
+
+/** Interpolated probability of `char` following `context` (the previous `order - 1` characters). */
+function probability(model: CompiledModel, context: string[], char: string): number {
+  let weighted = INTERPOLATION_WEIGHTS[0] / model.alphabetSize;
+  let weightSum = INTERPOLATION_WEIGHTS[0];
+
+  for (let n = 1; n <= model.order; n++) {
+    const prefix = context.slice(context.length - (n - 1)).join('');
+    const total = n === 1 ? model.unigramTotal : model.contextTotals.get(prefix);
+    if (!total) continue;
+
+    const weight = INTERPOLATION_WEIGHTS[n] ?? INTERPOLATION_WEIGHTS[INTERPOLATION_WEIGHTS.length - 1];
+    weighted += (weight * (model.grams.get(prefix + char) ?? 0)) / total;
+    weightSum += weight;
+  }
+
+  return weighted / weightSum;
+}
+
+export function analyzeMarkov(password: string): MarkovAnalysis {
+  if (!compiled || !password) return EMPTY_MARKOV_ANALYSIS;
+
+  const model = compiled;
+  const chars = Array.from(password.toLowerCase());
+  const history = Array<string>(model.order - 1).fill(model.start);
+  const perCharacter: MarkovCharacter[] = [];
+  const transitions: MarkovTransition[] = [];
+
+  chars.forEach((char, index) => {
+    const context = history.slice(history.length - (model.order - 1));
+    const p = probability(model, context, char);
+    perCharacter.push({ position: index + 1, char, probability: p, surprisal: -Math.log2(p) });
+    transitions.push({
+      position: index + 1,
+      context: context.filter(c => c !== model.start).join(''),
+      char,
+      probability: p,
+    });
+    history.push(char);
+  });
+
+  const endProbability = probability(model, history.slice(history.length - (model.order - 1)), model.end);
+  const totalBits =
+    perCharacter.reduce((sum, c) => sum + c.surprisal, 0) - Math.log2(endProbability);
+
+  return {
+    available: true,
+    order: model.order,
+    perCharacter,
+    totalBits,
+    averageSurprisal: totalBits / chars.length,
+    guesses: 2 ** totalBits * uppercaseVariations(password),
+    predictableTransitions: transitions
+      .filter(t => t.context)
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, PREDICTABLE_TRANSITIONS),
+  };
+}
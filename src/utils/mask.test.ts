@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { maskSpace, parseMask } from './mask';
+
+describe('maskSpace', () => {
+  it('counts small masks exactly', () => {
+    expect(maskSpace(parseMask('ud{2}')).size).toBe(2600n);
+  });
+
+  it('stays exact past 2^1024', () => {
+    // 70 characters per position: a plain product reached Infinity after about 167
+    const space = maskSpace(parseMask('S{200}'));
+    expect(space.size).toBe(70n ** 200n);
+    expect(space.entropy).toBeCloseTo(200 * Math.log2(70));
+  });
+});
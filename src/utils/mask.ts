@@ -0,0 +1,191 @@
+import { DEFAULT_SYMBOLS } from './generator';
+import { randomChoice } from './random';
+
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const UPPER = LOWER.toUpperCase();
+const DIGITS = '0123456789';
+const VOWELS = 'aeiou';
+const CONSONANTS = 'bcdfghjklmnpqrstvwxyz';
+
+/** Placeholder letters and the characters each stands for. */
+export const MASK_PLACEHOLDERS: Record<string, { label: string; chars: string }> = {
+  u: { label: 'uppercase letter', chars: UPPER },
+  l: { label: 'lowercase letter', chars: LOWER },
+  d: { label: 'digit', chars: DIGITS },
+  s: { label: `symbol (${DEFAULT_SYMBOLS})`, chars: DEFAULT_SYMBOLS },
+  C: { label: 'uppercase consonant', chars: CONSONANTS.toUpperCase() },
+  c: { label: 'lowercase consonant', chars: CONSONANTS },
+  V: { label: 'uppercase vowel', chars: VOWELS.toUpperCase() },
+  v: { label: 'lowercase vowel', chars: VOWELS },
+  L: { label: 'any letter', chars: UPPER + LOWER },
+  A: { label: 'letter or digit', chars: UPPER + LOWER + DIGITS },
+  S: { label: 'letter, digit or symbol', chars: UPPER + LOWER + DIGITS + DEFAULT_SYMBOLS },
+};
+
+/** Longest password a mask may expand to, so a stray `{99999}` cannot hang the page. */
+export const MAX_MASK_LENGTH = 256;
+
+/** One character of the output and the characters it is drawn from. */
+export interface MaskPosition {
+  /** A single character for a literal. */
+  chars: string[];
+  /** The placeholder, set or literal as written in the mask. */
+  source: string;
+}
+
+export interface MaskSpace {
+  /** Number of distinct passwords the mask can produce; long masks pass 2^1024. */
+  size: bigint;
+  entropy: number;
+}
+
+export interface MaskPreset {
+  name: string;
+  mask: string;
+}
+
+export const MASK_PRESETS: MaskPreset[] = [
+  { name: 'Syllables, PIN and symbols', mask: 'Cvcc-dddd-SSss' },
+  { name: 'Legacy 8 characters', mask: 'ul{5}dd' },
+  { name: 'Wi-Fi key', mask: 'A{20}' },
+  { name: 'Numeric PIN', mask: 'd{6}' },
+];
+
+/** Reads `[...]` starting at `start`; returns the characters and the index after `]`. */
+function parseSet(symbols: string[], start: number): [string[], number] {
+  // An escaped `-` is a plain character, never a range
+  const items: { char: string; escaped: boolean }[] = [];
+  let i = start + 1;
+  for (; i < symbols.length && symbols[i] !== ']'; i++) {
+    const escaped = symbols[i] === '\\' && i + 1 < symbols.length;
+    if (escaped) i++;
+    items.push({ char: symbols[i], escaped });
+  }
+  if (i >= symbols.length) throw new Error(`Unclosed set starting at position ${start + 1}`);
+
+  const chars: string[] = [];
+  for (let k = 0; k < items.length; k++) {
+    const dash = items[k + 1];
+    if (dash?.char === '-' && !dash.escaped && items[k + 2]) {
+      const from = items[k].char.codePointAt(0);
+      const to = items[k + 2].char.codePointAt(0);
+      if (to < from) throw new Error(`Invalid range ${items[k].char}-${items[k + 2].char} at position ${start + 1}`);
+      for (let code = from; code <= to; code++) chars.push(String.fromCodePoint(code));
+      k += 2;
+    } else {
+      chars.push(items[k].char);
+    }
+  }
+  const unique = Array.from(new Set(chars));
+  if (unique.length === 0) throw new Error(`Empty set at position ${start + 1}`);
+  return [unique, i + 1];
+}
+
+/**
+ * Expands a mask into positions. Placeholders are listed in `MASK_PLACEHOLDERS`;
+ * `[abc]` and `[a-f]` are custom sets, `{n}` repeats the previous item, `\` makes the
+ * next character literal and any other non-letter stands for itself. Positions are
+ * independent, so every output has exactly one way to be drawn.
+ */
+export function parseMask(mask: string): MaskPosition[] {
+  const symbols = Array.from(mask);
+  const positions: MaskPosition[] = [];
+  const tooLong = () => new Error(`Masks can expand to at most ${MAX_MASK_LENGTH} characters`);
+
+  let i = 0;
+  while (i < symbols.length) {
+    const char = symbols[i];
+
+    if (char === '{') {
+      const match = /^\{(\d+)\}/.exec(symbols.slice(i, i + 8).join(''));
+      if (!match) throw new Error(`Expected a count such as {4} at position ${i + 1}`);
+      const previous = positions[positions.length - 1];
+      if (!previous) throw new Error(`Nothing to repeat at position ${i + 1}`);
+      const count = parseInt(match[1], 10);
+      if (count < 1) throw new Error(`Repeat counts start at 1 (position ${i + 1})`);
+      if (positions.length + count - 1 > MAX_MASK_LENGTH) throw tooLong();
+      for (let n = 1; n < count; n++) positions.push(previous);
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '[') {
+      const [chars, end] = parseSet(symbols, i);
+      positions.push({ chars, source: symbols.slice(i, end).join('') });
+      i = end;
+    } else if (char === '\\') {
+      if (i + 1 >= symbols.length) throw new Error('The mask ends with an unfinished escape');
+      positions.push({ chars: [symbols[i + 1]], source: char + symbols[i + 1] });
+      i += 2;
+    } else if (MASK_PLACEHOLDERS[char]) {
+      positions.push({ chars: Array.from(MASK_PLACEHOLDERS[char].chars), source: char });
+      i++;
+    } else if (/\p{L}/u.test(char)) {
+      throw new Error(`Unknown placeholder "${char}" at position ${i + 1}; write \\${char} for a literal`);
+    } else {
+      positions.push({ chars: [char], source: char });
+      i++;
+    }
+    if (positions.length > MAX_MASK_LENGTH) throw tooLong();
+  }
+  return positions;
+}
+
+export function maskSpace(positions: MaskPosition[]): MaskSpace {
+  if (positions.length === 0) return { size: 0n, entropy: 0 };
+  return {
+    size: positions.reduce((size, position) => size * BigInt(position.chars.length), 1n),
+    entropy: positions.reduce((bits, position) => bits + Math.log2(position.chars.length), 0),
+  };
+}
+
+export function generateFromMask(positions: MaskPosition[]): string {
+  if (positions.length === 0) throw new Error('The mask is empty');
+  return positions.map(position => randomChoice(position.chars)).join('');
+}
+
+/**
+ * The shape of a password in mask notation, e.g. `Summer2024!` gives `ul{5}d{4}s`.
+ * Caseless letters become `L` and anything else that is not a letter or digit `s`.
+ */
+export function maskOf(password: string): string {
+  const classes = Array.from(password, char => {
+    if (/\p{Lu}/u.test(char)) return 'u';
+    if (/\p{Ll}/u.test(char)) return 'l';
+    if (/\p{N}/u.test(char)) return 'd';
+    if (/\p{L}/u.test(char)) return 'L';
+    return 's';
+  });
+
+  let mask = '';
+  for (let i = 0; i < classes.length; ) {
+    let end = i + 1;
+    while (classes[end] === classes[i]) end++;
+    const run = end - i;
+    mask += run >= 3 ? `${classes[i]}{${run}}` : classes[i].repeat(run);
+    i = end;
+  }
+  return mask;
+}
+
+const STORAGE_KEY = 'strong-pass-scanner:mask-presets';
+
+/** Masks the user saved in this browser. */
+export function loadSavedMasks(): MaskPreset[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved)
+      ? saved.filter(preset => typeof preset?.name === 'string' && typeof preset?.mask === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMasks(presets: MaskPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage can be full or disabled; presets then last for the session only
+  }
+}
@@ -0,0 +1,93 @@
+import { loadTextAsset } from './assets';
+import { DEFAULT_SYMBOLS } from './generator';
+import { randomChoice, randomInt } from './random';
+
+/** Lists bundled in public/wordlists; anything else is imported as a custom list. */
+export type WordlistName = 'eff-long';
+
+export const WORDLIST_LABELS: Record<WordlistName, string> = {
+  'eff-long': 'EFF long (7,776 words)',
+};
+
+export type Capitalisation = 'lower' | 'upper' | 'title' | 'random';
+
+export interface PassphraseOptions {
+  wordCount: number;
+  separator: string;
+  /** `random` title-cases each word with probability ½, adding one bit per word. */
+  capitalisation: Capitalisation;
+  /** Append a random digit to one randomly chosen word. */
+  includeDigit: boolean;
+  /** Append a random symbol to one randomly chosen word. */
+  includeSymbol: boolean;
+  symbols: string;
+}
+
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = {
+  wordCount: 6,
+  separator: '-',
+  capitalisation: 'lower',
+  includeDigit: false,
+  includeSymbol: false,
+  symbols: DEFAULT_SYMBOLS,
+};
+
+const cache = new Map<WordlistName, Promise<string[]>>();
+
+/**
+ * Reads a word list: one word per line, optionally after dice numbers as in the EFF
+ * files. Duplicates are dropped so every word counts once towards the entropy.
+ */
+export function parseWordlist(text: string): string[] {
+  const words = text
+    .split('\n')
+    .map(line => line.trim().split(/\s+/).pop())
+    .filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+export function loadWordlist(name: WordlistName): Promise<string[]> {
+  let request = cache.get(name);
+  if (!request) {
+    request = loadTextAsset(`wordlists/${name}.txt.gz`).then(parseWordlist);
+    request.catch(() => cache.delete(name));
+    cache.set(name, request);
+  }
+  return request;
+}
+
+/**
+ * Exact entropy in bits of a passphrase drawn with these options:
+ * `words * log2(listSize)`, plus the capitalisation and insertion choices.
+ */
+export function passphraseEntropy(listSize: number, options: PassphraseOptions): number {
+  if (listSize < 1 || options.wordCount < 1) return 0;
+  let bits = options.wordCount * Math.log2(listSize);
+  if (options.capitalisation === 'random') bits += options.wordCount;
+  if (options.includeDigit) bits += Math.log2(10 * options.wordCount);
+  if (options.includeSymbol && options.symbols) bits += Math.log2(new Set(options.symbols).size * options.wordCount);
+  return bits;
+}
+
+function capitalise(word: string, style: Capitalisation): string {
+  const title = word.charAt(0).toUpperCase() + word.slice(1);
+  if (style === 'upper') return word.toUpperCase();
+  if (style === 'title') return title;
+  if (style === 'random') return randomInt(2) ? title : word;
+  return word;
+}
+
+export function generatePassphrase(words: string[], options: PassphraseOptions): string {
+  if (words.length < 2) throw new Error('The word list needs at least two words');
+
+  const chosen = Array.from({ length: options.wordCount }, () =>
+    capitalise(randomChoice(words), options.capitalisation)
+  );
+  if (options.includeDigit) {
+    chosen[randomInt(chosen.length)] += String(randomInt(10));
+  }
+  if (options.includeSymbol && options.symbols) {
+    chosen[randomInt(chosen.length)] += randomChoice(Array.from(new Set(options.symbols)));
+  }
+  return chosen.join(options.separator);
+}
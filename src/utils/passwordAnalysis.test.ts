@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePassword, findPatternMatches, findRepeatedCharacters, findSequentialCharacters } from './passwordAnalysis';
+
+describe('pattern matches', () => {
+  it('reports repeats as spans with a guess estimate', () => {
+    expect(findRepeatedCharacters('xaaaay')).toEqual([{ kind: 'repeat', start: 1, end: 5, token: 'aaaa', guesses: 104 }]);
+    expect(findRepeatedCharacters('aabbcc')).toEqual([]);
+  });
+
+  it('prices descending sequences above ascending ones', () => {
+    const [ascending] = findSequentialCharacters('#abcd#');
+    expect(ascending).toMatchObject({ kind: 'sequence', start: 1, end: 5, token: 'abcd' });
+    const [descending] = findSequentialCharacters('#dcba#');
+    expect(descending.guesses).toBeGreaterThan(ascending.guesses);
+  });
+
+  it('orders matches by position, each token being its slice of the password', () => {
+    const password = 'zzzz1234qwerty';
+    const matches = findPatternMatches(password);
+    expect(new Set(matches.map(match => match.kind))).toEqual(new Set(['repeat', 'sequence', 'keyboard', 'date']));
+    const starts = matches.map(match => match.start);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    for (const match of matches) expect(password.slice(match.start, match.end)).toBe(match.token);
+  });
+
+  it('derives the flags from the matches', () => {
+    const analysis = analyzePassword('zzzz1234qwerty');
+    expect(analysis.hasRepeatedChars).toBe(true);
+    expect(analysis.hasSequentialChars).toBe(true);
+    expect(analysis.hasKeyboardPattern).toBe(true);
+    expect(analyzePassword('Vx7#tundra').hasRepeatedChars).toBe(false);
+  });
+});
@@ -1,9 +1,81 @@
 import zxcvbn from 'zxcvbn';
+import { bruteForceEntropy, effectiveEntropy, symbolLength } from './entropy';
+import { findKeyboardWalks, KeyboardLayoutName } from './keyboard';
+import { Dictionary, getLoadedDictionaries } from './dictionary';
+import { uppercaseVariations } from './guesses';
+import { enumerateLeetCandidates, leetVariations } from './leet';
+import { findDates } from './dates';
+import { analyzeMarkov, EMPTY_MARKOV_ANALYSIS, MarkovAnalysis } from './markov';
+import { analyzePcfg, EMPTY_PCFG_ANALYSIS, PcfgAnalysis } from './pcfg';
+import { AttackerModel, EMPTY_HASH_STRENGTH, estimateCrackTimes, HashStrength } from './attackerModel';
+import { createUserInputDictionary, USER_INPUTS_DICTIONARY, UserInputs, userInputTokens } from './userInputs';
+import { analyzeUnicode, categoryOf, EMPTY_UNICODE_ANALYSIS, splitGraphemes, toMatchingForm, UnicodeAnalysis } from './unicode';
+import { BreachResult } from './breachIndex';
+import { PolicyResult } from './policy';
+
+export type PatternKind = 'repeat' | 'sequence' | 'keyboard' | 'dictionary' | 'date';
+
+export const PATTERN_LABELS: Record<PatternKind, string> = {
+  repeat: 'Repeated characters',
+  sequence: 'Sequence',
+  keyboard: 'Keyboard pattern',
+  dictionary: 'Common word',
+  date: 'Date or year',
+};
+
+/**
+ * A span of the password matched by one of the detectors. `start` is inclusive and
+ * `end` is exclusive, so `password.slice(start, end) === token`. Within
+ * `analyzePassword` the password is its matching form (see `toMatchingForm`).
+ */
+export interface PatternMatch {
+  kind: PatternKind;
+  start: number;
+  end: number;
+  token: string;
+  guesses: number;
+  /** Keyboard walks: the layout the walk was found on. */
+  layout?: KeyboardLayoutName;
+  /** Keyboard walks: how many times the walk changed direction. */
+  turns?: number;
+  /** Keyboard walks: how many keys were typed with shift held. */
+  shiftedCount?: number;
+  /** Dictionary words: the dictionary the word was found in. */
+  dictionaryName?: string;
+  /** Dictionary words: the word as listed, lowercase. */
+  matchedWord?: string;
+  /** Dictionary words: position in the ranked list, 1 being the most common. */
+  rank?: number;
+  /** Dictionary words: l33t characters in the token and the letters they replaced. */
+  substitutions?: Record<string, string>;
+  /** Dates: the components that were read. Bare years only set `year`. */
+  year?: number;
+  month?: number;
+  day?: number;
+  /** Dates: the character between components, empty when there is none. */
+  separator?: string;
+}
+
+export interface AnalysisOptions {
+  /** Personal details to penalise; they are only held for the duration of the call. */
+  userInputs?: UserInputs;
+  /** Hardware assumed for the crack times; defaults to one high-end GPU. */
+  attackerModel?: AttackerModel;
+  /**
+   * Fills `entropyPerCharacter`, which re-runs every detector on each prefix: quadratic in
+   * the length. Defaults to true; callers that don't draw the chart turn it off.
+   */
+  entropyPerCharacter?: boolean;
+}
 
 export interface PasswordAnalysis {
   score: number;
   strength: 'very-weak' | 'weak' | 'fair' | 'strong' | 'very-strong';
+  /** Brute-force entropy in bits, `length * log2(poolSize)`. */
   entropy: number;
+  /** Entropy in bits after matched patterns are priced at their guess estimates. */
+  effectiveEntropy: number;
+  /** Length in grapheme clusters, not UTF-16 code units. */
   length: number;
   hasUppercase: boolean;
   hasLowercase: boolean;
@@ -13,114 +85,292 @@ export interface PasswordAnalysis {
   hasSequentialChars: boolean;
   hasKeyboardPattern: boolean;
   hasDictionaryWords: boolean;
+  matches: PatternMatch[];
   charDistribution: {
     uppercase: number;
     lowercase: number;
     numbers: number;
     symbols: number;
+    /** Letters without case, such as Han, Arabic or Devanagari. */
+    otherLetters: number;
   };
+  unicode: UnicodeAnalysis;
   feedback: string[];
+  /** zxcvbn's estimate of how many guesses an attacker needs. */
+  guesses: number;
+  /** Second opinion from the probabilistic context-free grammar. */
+  pcfg: PcfgAnalysis;
+  /** Time to try `attackGuesses` against bcrypt under the attacker model, as in `hashStrength`. */
   crackTime: string;
-  ngramLikelihood: number;
-  hashStrength: {
-    bcrypt: { time: string; guessesPerSecond: string };
-    sha256: { time: string; guessesPerSecond: string };
-    argon2: { time: string; guessesPerSecond: string };
+  markov: MarkovAnalysis;
+  /** Fewest guesses any model needs: zxcvbn or 2^effectiveEntropy. Crack times use this. */
+  attackGuesses: number;
+  hashStrength: HashStrength;
+  entropyPerCharacter: EntropyPoint[];
+  /**
+   * Each built-in list that was loaded, with the rank at which it lists the whole password
+   * (or a leet spelling of it), or null. Banned-list policy rules read this, so they follow
+   * whichever thread ran the analysis and its word lists.
+   */
+  wholeWordRanks: Record<string, number | null>;
+  /** Set by `analyzePasswordAsync` once a breach provider has answered. */
+  breach?: BreachResult;
+  /** Policies contributed by async providers, evaluated against this password. */
+  policies?: PolicyResult[];
+  /** Async providers that failed; their evidence is missing, not negative. */
+  providerErrors?: { id: string; message: string }[];
+}
+
+export interface EntropyPoint {
+  character: number;
+  entropy: number;
+  effectiveEntropy: number;
+}
+
+function charClassSize(char: string): number {
+  if (/[a-z]/.test(char) || /[A-Z]/.test(char)) return 26;
+  if (/[0-9]/.test(char)) return 10;
+  return 33;
+}
+
+export function findRepeatedCharacters(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= password.length; i++) {
+    if (i < password.length && password[i] === password[start]) continue;
+
+    if (i - start >= 3) {
+      matches.push({
+        kind: 'repeat',
+        start,
+        end: i,
+        token: password.slice(start, i),
+        guesses: charClassSize(password[start]) * (i - start),
+      });
+    }
+    start = i;
+  }
+
+  return matches;
+}
+
+function sequenceGuesses(token: string, ascending: boolean): number {
+  const first = token[0].toLowerCase();
+  let base = charClassSize(first);
+  if (['a', 'z', '0', '1', '9'].includes(first)) base = 4;
+  return base * (ascending ? 1 : 2) * token.length;
+}
+
+export function findSequentialCharacters(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  // Walk the password tracking the code point delta between neighbours; a run of
+  // three or more characters with a constant delta of ±1 is a sequence.
+  const deltaAt = (i: number) =>
+    charClassSize(lower[i]) === charClassSize(lower[i - 1])
+      ? lower.charCodeAt(i) - lower.charCodeAt(i - 1)
+      : NaN;
+
+  const addRun = (start: number, end: number, delta: number) => {
+    if (end - start < 3 || Math.abs(delta) !== 1) return;
+    const token = password.slice(start, end);
+    matches.push({ kind: 'sequence', start, end, token, guesses: sequenceGuesses(token, delta > 0) });
   };
-  entropyPerCharacter: { character: number; entropy: number }[];
+
+  let start = 0;
+  let lastDelta = NaN;
+  for (let i = 1; i < lower.length; i++) {
+    const delta = deltaAt(i);
+    if (i - start === 1) {
+      lastDelta = delta;
+    } else if (delta !== lastDelta) {
+      addRun(start, i, lastDelta);
+      start = i - 1;
+      lastDelta = delta;
+    }
+  }
+  addRun(start, lower.length, lastDelta);
+
+  return matches;
 }
 
-export function calculateEntropy(password: string): number {
-  let chars = 0;
-  if (/[a-z]/.test(password)) chars += 26;
-  if (/[A-Z]/.test(password)) chars += 26;
-  if (/[0-9]/.test(password)) chars += 10;
-  if (/[^A-Za-z0-9]/.test(password)) chars += 32;
-  
-  return chars * password.length / 4;
+export function findKeyboardPatterns(password: string): PatternMatch[] {
+  return findKeyboardWalks(password);
 }
 
-export function hasRepeatedCharacters(password: string): boolean {
-  for (let i = 0; i < password.length - 2; i++) {
-    if (password[i] === password[i + 1] && password[i] === password[i + 2]) {
-      return true;
+const MIN_DICTIONARY_WORD_LENGTH = 3;
+
+/**
+ * zxcvbn's matching is superlinear in length: 256 characters take over a minute. Only
+ * this prefix is passed to it; the other models still see the whole password, and the
+ * lower guess count from a prefix can only make the estimate more cautious.
+ */
+export const ZXCVBN_MAX_LENGTH = 100;
+
+const isUserInput = (match: PatternMatch) => match.dictionaryName === USER_INPUTS_DICTIONARY;
+
+/**
+ * Whether `match` should replace `existing` on the same span. A word from the user's own
+ * details always wins, even where a built-in list ranks it lower: it is the evidence
+ * that the password is personal.
+ */
+function outranks(match: PatternMatch, existing: PatternMatch): boolean {
+  if (isUserInput(match) !== isUserInput(existing)) return isUserInput(match);
+  return match.guesses < existing.guesses;
+}
+
+/**
+ * Searches every loaded dictionary, both as typed and with l33t substitutions undone.
+ * A word's rank is its base guess count. Where matches overlap on a span the user's own
+ * details win, then the cheapest, and a word inside a longer word that is no harder to
+ * guess is dropped unless it is personal and the longer word is not.
+ */
+export function findDictionaryWords(
+  password: string,
+  dictionaries: Dictionary[] = getLoadedDictionaries()
+): PatternMatch[] {
+  const lower = password.toLowerCase();
+  const candidates = [{ text: lower, substitutions: {} }, ...enumerateLeetCandidates(lower)];
+  const bySpan = new Map<string, PatternMatch>();
+
+  for (const candidate of candidates) {
+    for (const dictionary of dictionaries) {
+      for (const hit of dictionary.findWords(candidate.text)) {
+        if (hit.end - hit.start < MIN_DICTIONARY_WORD_LENGTH) continue;
+
+        const token = password.slice(hit.start, hit.end);
+        const substitutions = Object.fromEntries(
+          Object.entries(candidate.substitutions).filter(([char]) => token.includes(char))
+        );
+        const isLeet = Object.keys(substitutions).length > 0;
+        // Words the substitutions did not touch are already found in the plain pass
+        if (candidate.text !== lower && !isLeet) continue;
+
+        const match: PatternMatch = {
+          kind: 'dictionary',
+          start: hit.start,
+          end: hit.end,
+          token,
+          guesses: hit.rank * uppercaseVariations(token) * leetVariations(token, substitutions),
+          dictionaryName: dictionary.name,
+          matchedWord: hit.word,
+          rank: hit.rank,
+          ...(isLeet && { substitutions }),
+        };
+        const span = `${hit.start}:${hit.end}`;
+        const existing = bySpan.get(span);
+        if (!existing || outranks(match, existing)) bySpan.set(span, match);
+      }
     }
   }
-  return false;
+
+  const words = Array.from(bySpan.values());
+  return words.filter(word =>
+    !words.some(other =>
+      other !== word &&
+      other.start <= word.start &&
+      other.end >= word.end &&
+      other.guesses <= word.guesses &&
+      (isUserInput(other) || !isUserInput(word))
+    )
+  );
+}
+
+/** The share of the password covered by the user's own details. */
+function personalCoverage(matches: PatternMatch[], password: string): number {
+  const covered = new Set<number>();
+  for (const match of matches.filter(isUserInput)) {
+    for (let i = match.start; i < match.end; i++) covered.add(i);
+  }
+  return covered.size / password.length;
+}
+
+function dictionariesFor(options: AnalysisOptions): Dictionary[] {
+  const dictionaries = getLoadedDictionaries();
+  if (!options.userInputs) return dictionaries;
+  return [createUserInputDictionary(options.userInputs), ...dictionaries];
+}
+
+export function findPatternMatches(password: string, options: AnalysisOptions = {}): PatternMatch[] {
+  return findPatternMatchesIn(password, dictionariesFor(options));
+}
+
+function findPatternMatchesIn(password: string, dictionaries: Dictionary[]): PatternMatch[] {
+  return [
+    ...findRepeatedCharacters(password),
+    ...findSequentialCharacters(password),
+    ...findKeyboardPatterns(password),
+    ...findDictionaryWords(password, dictionaries),
+    ...findDates(password),
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+export function hasRepeatedCharacters(password: string): boolean {
+  return findRepeatedCharacters(password).length > 0;
 }
 
 export function hasSequentialCharacters(password: string): boolean {
-  const sequences = ['abc', '123', 'qwe', 'asd', 'zxc'];
-  const lower = password.toLowerCase();
-  return sequences.some(seq => lower.includes(seq));
+  return findSequentialCharacters(password).length > 0;
 }
 
 export function detectKeyboardPattern(password: string): boolean {
-  const patterns = ['qwerty', 'asdfgh', 'zxcvbn'];
-  const lower = password.toLowerCase();
-  return patterns.some(p => lower.includes(p));
+  return findKeyboardPatterns(password).length > 0;
 }
 
 export function detectDictionaryWords(password: string): boolean {
-  const words = ['password', 'admin', 'letmein', 'welcome', '123456'];
-  const lower = password.toLowerCase();
-  return words.some(word => lower.includes(word));
+  return findDictionaryWords(password).length > 0;
 }
 
-export function calculateNgramLikelihood(password: string): number {
-  const common = ['12', '23', 'ab', 'er', '123', 'abc'];
-  const lower = password.toLowerCase();
-  let count = 0;
-  
-  for (const pattern of common) {
-    if (lower.includes(pattern)) count++;
+/** See `PasswordAnalysis.wholeWordRanks`; `text` is in matching form. */
+function findWholeWordRanks(text: string): Record<string, number | null> {
+  const lower = text.toLowerCase();
+  const candidates = [lower, ...enumerateLeetCandidates(lower).map(candidate => candidate.text)];
+  const ranks: Record<string, number | null> = {};
+  for (const dictionary of getLoadedDictionaries()) {
+    ranks[dictionary.name] = null;
+    for (const candidate of candidates) {
+      const hit = dictionary.findWords(candidate).find(h => h.start === 0 && h.end === candidate.length);
+      if (hit) {
+        ranks[dictionary.name] = hit.rank;
+        break;
+      }
+    }
   }
-  
-  return (count / common.length) * 100;
+  return ranks;
 }
 
-export function calculateEntropyPerCharacter(password: string): { character: number; entropy: number }[] {
-  const result: { character: number; entropy: number }[] = [];
+export function calculateEntropyPerCharacter(password: string, options: AnalysisOptions = {}): EntropyPoint[] {
+  const result: EntropyPoint[] = [];
+  const dictionaries = dictionariesFor(options);
   
-  for (let i = 1; i <= password.length; i++) {
-    const substring = password.substring(0, i);
-    result.push({ character: i, entropy: calculateEntropy(substring) });
+  let substring = '';
+  for (const grapheme of splitGraphemes(password)) {
+    substring += grapheme;
+    result.push({
+      character: result.length + 1,
+      entropy: bruteForceEntropy(substring),
+      effectiveEntropy: effectiveEntropy(substring, findPatternMatchesIn(substring, dictionaries)),
+    });
   }
   
   return result;
 }
 
-export function calculateHashStrength(password: string, entropy: number) {
-  const length = password.length;
-  
-  let bcryptTime = "1 year";
-  let sha256Time = "1 day";
-  let argon2Time = "2 years";
-  
-  if (length < 8) {
-    bcryptTime = "1 hour";
-    sha256Time = "1 second";
-    argon2Time = "2 hours";
-  } else if (length < 12) {
-    bcryptTime = "1 week";
-    sha256Time = "1 minute";
-    argon2Time = "2 weeks";
-  }
-  
-  return {
-    bcrypt: { time: bcryptTime, guessesPerSecond: "1K/sec" },
-    sha256: { time: sha256Time, guessesPerSecond: "1B/sec" },
-    argon2: { time: argon2Time, guessesPerSecond: "500/sec" },
-  };
+export function calculateHashStrength(guesses: number, model?: AttackerModel): HashStrength {
+  return estimateCrackTimes(guesses, model);
 }
 
 export function getCharDistribution(password: string) {
-  const dist = { uppercase: 0, lowercase: 0, numbers: 0, symbols: 0 };
+  const dist = { uppercase: 0, lowercase: 0, numbers: 0, symbols: 0, otherLetters: 0 };
   
-  for (const char of password) {
-    if (/[A-Z]/.test(char)) dist.uppercase++;
-    else if (/[a-z]/.test(char)) dist.lowercase++;
-    else if (/[0-9]/.test(char)) dist.numbers++;
+  for (const grapheme of splitGraphemes(password)) {
+    const category = categoryOf(grapheme);
+    if (category === 'uppercase') dist.uppercase++;
+    else if (category === 'lowercase') dist.lowercase++;
+    else if (category === 'number') dist.numbers++;
+    else if (category === 'otherLetter') dist.otherLetters++;
     else dist.symbols++;
   }
   
@@ -137,17 +387,33 @@ export function generateFeedback(analysis: Partial<PasswordAnalysis>): string[]
   if (!analysis.hasSymbols) feedback.push('Add special characters');
   if (analysis.hasRepeatedChars) feedback.push('Avoid repeated characters');
   if (analysis.hasSequentialChars) feedback.push('Avoid sequences like abc or 123');
+  if (analysis.hasKeyboardPattern) feedback.push('Avoid keyboard patterns like qwerty or 1qaz2wsx');
+  if (analysis.matches?.some(m => m.dictionaryName === 'passwords')) feedback.push('Avoid common passwords');
+  if (analysis.matches?.some(isUserInput)) {
+    feedback.push('Avoid your name, email, username or the site name');
+  }
+  if (analysis.matches?.some(m => m.substitutions)) {
+    feedback.push('Predictable substitutions like @ for a or 0 for o add little strength');
+  }
+  if (analysis.matches?.some(m => m.kind === 'date')) feedback.push('Avoid dates and years associated with you');
+  if (analysis.unicode?.confusables.length) {
+    feedback.push('Letters from other scripts that look Latin do not disguise a weak password');
+  }
+  if (analysis.unicode?.invisibles.length) {
+    feedback.push('Remove invisible characters; they are easily lost when typing on another device');
+  }
   
   if (feedback.length === 0) feedback.push('Great password!');
   return feedback;
 }
 
-export function analyzePassword(password: string): PasswordAnalysis {
+export function analyzePassword(password: string, options: AnalysisOptions = {}): PasswordAnalysis {
   if (!password) {
     return {
       score: 0,
       strength: 'very-weak',
       entropy: 0,
+      effectiveEntropy: 0,
       length: 0,
       hasUppercase: false,
       hasLowercase: false,
@@ -157,36 +423,52 @@ export function analyzePassword(password: string): PasswordAnalysis {
       hasSequentialChars: false,
       hasKeyboardPattern: false,
       hasDictionaryWords: false,
-      charDistribution: { uppercase: 0, lowercase: 0, numbers: 0, symbols: 0 },
+      matches: [],
+      charDistribution: { uppercase: 0, lowercase: 0, numbers: 0, symbols: 0, otherLetters: 0 },
+      unicode: EMPTY_UNICODE_ANALYSIS,
       feedback: ['Enter a password'],
+      guesses: 0,
+      pcfg: EMPTY_PCFG_ANALYSIS,
       crackTime: 'N/A',
-      ngramLikelihood: 0,
-      hashStrength: {
-        bcrypt: { time: 'N/A', guessesPerSecond: 'N/A' },
-        sha256: { time: 'N/A', guessesPerSecond: 'N/A' },
-        argon2: { time: 'N/A', guessesPerSecond: 'N/A' },
-      },
+      markov: EMPTY_MARKOV_ANALYSIS,
+      attackGuesses: 0,
+      hashStrength: EMPTY_HASH_STRENGTH,
       entropyPerCharacter: [],
+      wholeWordRanks: {},
     };
   }
   
-  const result = zxcvbn(password);
-  const entropy = calculateEntropy(password);
+  // Detectors and models see the matching form; character counts describe what was typed.
+  const text = toMatchingForm(password);
+  const length = symbolLength(password);
+  const result = zxcvbn(
+    Array.from(text).slice(0, ZXCVBN_MAX_LENGTH).join(''),
+    options.userInputs ? userInputTokens(options.userInputs) : []
+  );
+  const entropy = bruteForceEntropy(text);
   const charDistribution = getCharDistribution(password);
   
-  const hasUppercase = /[A-Z]/.test(password);
-  const hasLowercase = /[a-z]/.test(password);
-  const hasNumbers = /[0-9]/.test(password);
-  const hasSymbols = /[^A-Za-z0-9]/.test(password);
-  const hasRepeatedChars = hasRepeatedCharacters(password);
-  const hasSequentialChars = hasSequentialCharacters(password);
-  const hasKeyboardPattern = detectKeyboardPattern(password);
-  const hasDictionaryWords = detectDictionaryWords(password);
+  const hasUppercase = /\p{Lu}/u.test(password);
+  const hasLowercase = /\p{Ll}/u.test(password);
+  const hasNumbers = /\p{N}/u.test(password);
+  const hasSymbols = /[^\p{L}\p{N}]/u.test(password);
+  const matches = findPatternMatches(text, options);
+  const hasRepeatedChars = matches.some(m => m.kind === 'repeat');
+  const hasSequentialChars = matches.some(m => m.kind === 'sequence');
+  const hasKeyboardPattern = matches.some(m => m.kind === 'keyboard');
+  const hasDictionaryWords = matches.some(m => m.kind === 'dictionary');
+  const hasCommonPassword = matches.some(m => m.dictionaryName === 'passwords');
+  const hasUserInput = matches.some(m => m.dictionaryName === USER_INPUTS_DICTIONARY);
+  const patternAwareEntropy = effectiveEntropy(text, matches);
+  const attackGuesses = Math.min(result.guesses, 2 ** patternAwareEntropy);
+  const hashStrength = calculateHashStrength(attackGuesses, options.attackerModel);
   
-  let score = result.score;
-  if (password.length < 8) score = 0;
-  if (password.length >= 12) score = score + 1;
-  if (hasDictionaryWords) score = score - 1;
+  let score: number = result.score;
+  if (length < 8) score = 0;
+  if (length >= 12) score = score + 1;
+  if (hasCommonPassword) score = score - 1;
+  // A targeted attacker tries the user's own details first, so no score hides them
+  if (hasUserInput) score = Math.min(score - 1, personalCoverage(matches, text) >= 0.5 ? 1 : 2);
   
   if (score < 0) score = 0;
   if (score > 4) score = 4;
@@ -203,7 +485,8 @@ export function analyzePassword(password: string): PasswordAnalysis {
     score: finalScore,
     strength: strength,
     entropy,
-    length: password.length,
+    effectiveEntropy: patternAwareEntropy,
+    length,
     hasUppercase,
     hasLowercase,
     hasNumbers,
@@ -212,12 +495,18 @@ export function analyzePassword(password: string): PasswordAnalysis {
     hasSequentialChars,
     hasKeyboardPattern,
     hasDictionaryWords,
+    matches,
     charDistribution,
+    unicode: analyzeUnicode(password),
     feedback: [],
-    crackTime: String(result.crack_times_display.offline_slow_hashing_1e4_per_second),
-    ngramLikelihood: calculateNgramLikelihood(password),
-    hashStrength: calculateHashStrength(password, entropy),
-    entropyPerCharacter: calculateEntropyPerCharacter(password),
+    guesses: result.guesses,
+    pcfg: analyzePcfg(text),
+    crackTime: hashStrength.bcrypt.time,
+    markov: analyzeMarkov(text),
+    attackGuesses,
+    hashStrength,
+    entropyPerCharacter: options.entropyPerCharacter === false ? [] : calculateEntropyPerCharacter(text, options),
+    wholeWordRanks: findWholeWordRanks(text),
   };
   
   analysis.feedback = generateFeedback(analysis);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePcfg, EMPTY_PCFG_ANALYSIS, isPcfgModelLoaded, PcfgModel, segmentPassword, setPcfgModel } from './pcfg';
+
+// P(pass12) = 0.5, P(word12) = P(1234) = 0.25
+const MODEL: PcfgModel = {
+  version: 1,
+  trainedOn: 4,
+  structures: { L4D2: 3, D4: 1 },
+  terminals: { L4: { pass: 2, word: 1 }, D2: { '12': 1 }, D4: { '1234': 1 } },
+};
+
+describe('segmentPassword', () => {
+  it('splits runs of letters, digits and symbols, lowercasing letters', () => {
+    expect(segmentPassword('Pass12!!x')).toEqual([
+      { type: 'L', length: 4, value: 'pass' },
+      { type: 'D', length: 2, value: '12' },
+      { type: 'S', length: 2, value: '!!' },
+      { type: 'L', length: 1, value: 'x' },
+    ]);
+  });
+
+  it('counts non-Latin characters as symbols', () => {
+    expect(segmentPassword('é🔑')).toEqual([{ type: 'S', length: 2, value: 'é🔑' }]);
+  });
+});
+
+describe('analyzePcfg', () => {
+  it('is empty until a grammar is loaded', () => {
+    expect(isPcfgModelLoaded()).toBe(false);
+    expect(analyzePcfg('pass12')).toBe(EMPTY_PCFG_ANALYSIS);
+  });
+
+  it('multiplies the structure and terminal probabilities', () => {
+    setPcfgModel(MODEL);
+    expect(analyzePcfg('pass12')).toMatchObject({ available: true, structure: 'L4D2', probability: 0.5, covered: true });
+    expect(analyzePcfg('word12').probability).toBeCloseTo(0.25);
+  });
+
+  it('estimates guess numbers from the samples more likely than the password', () => {
+    setPcfgModel(MODEL);
+    expect(analyzePcfg('pass12').guesses).toBe(1);
+    // About half the samples are pass12, each standing for 1 / (n * 0.5) passwords
+    expect(analyzePcfg('word12').guesses).toBeCloseTo(2, 1);
+    expect(analyzePcfg('Pass12').guesses).toBe(2);
+  });
+
+  it('marks passwords the grammar cannot produce as not covered', () => {
+    setPcfgModel(MODEL);
+    expect(analyzePcfg('pass99')).toMatchObject({ structure: 'L4D2', probability: 0, covered: false, guesses: Infinity });
+    expect(analyzePcfg('pass!')).toMatchObject({ structure: 'L4S1', covered: false });
+  });
+});
@@ -0,0 +1,212 @@
+import { loadTextAsset } from './assets';
+import { uppercaseVariations } from './guesses';
+
+export type SegmentType = 'L' | 'D' | 'S';
+
+/** The trained grammar as shipped in `public/models/pcfg.json.gz`. */
+export interface PcfgModel {
+  version: number;
+  trainedOn: number;
+  /** Structure (e.g. `L6D4S1`) → number of training passwords with it. */
+  structures: Record<string, number>;
+  /** Segment (e.g. `D4`) → terminal string → count. Letters are lowercase. */
+  terminals: Record<string, Record<string, number>>;
+}
+
+export interface PcfgSegment {
+  type: SegmentType;
+  length: number;
+  value: string;
+}
+
+export interface PcfgAnalysis {
+  /** False until the grammar has been loaded. */
+  available: boolean;
+  structure: string;
+  segments: PcfgSegment[];
+  /** Probability the grammar assigns to the password; 0 if it cannot produce it. */
+  probability: number;
+  /** False when the structure or a terminal never occurred in training. */
+  covered: boolean;
+  /** Monte-Carlo estimate of the guess number; `Infinity` when not covered. */
+  guesses: number;
+}
+
+interface WeightedTable {
+  values: string[];
+  cumulative: number[];
+  probabilities: Map<string, number>;
+}
+
+interface CompiledGrammar {
+  structures: WeightedTable;
+  terminals: Map<string, WeightedTable>;
+  /** Sampled password probabilities, highest first, with their estimated guess numbers. */
+  sampleProbabilities: number[];
+  sampleGuesses: number[];
+}
+
+// More samples tighten the estimate; this many take a few milliseconds to draw.
+const MONTE_CARLO_SAMPLES = 10000;
+const SAMPLING_SEED = 0x5eed;
+
+export const EMPTY_PCFG_ANALYSIS: PcfgAnalysis = {
+  available: false,
+  structure: '',
+  segments: [],
+  probability: 0,
+  covered: false,
+  guesses: 0,
+};
+
+let grammar: CompiledGrammar | null = null;
+let pending: Promise<void> | null = null;
+
+export function segmentPassword(password: string): PcfgSegment[] {
+  const runs = password.toLowerCase().match(/[a-z]+|[0-9]+|[^a-z0-9]+/g) ?? [];
+  return runs.map(value => {
+    const type: SegmentType = /[a-z]/.test(value[0]) ? 'L' : /[0-9]/.test(value[0]) ? 'D' : 'S';
+    return { type, length: Array.from(value).length, value };
+  });
+}
+
+function structureOf(segments: PcfgSegment[]): string {
+  return segments.map(s => `${s.type}${s.length}`).join('');
+}
+
+function weightedTable(counts: Record<string, number>): WeightedTable {
+  const values = Object.keys(counts);
+  const total = values.reduce((sum, value) => sum + counts[value], 0);
+  const cumulative: number[] = [];
+  const probabilities = new Map<string, number>();
+
+  let running = 0;
+  for (const value of values) {
+    running += counts[value] / total;
+    cumulative.push(running);
+    probabilities.set(value, counts[value] / total);
+  }
+  return { values, cumulative, probabilities };
+}
+
+function pick(table: WeightedTable, random: number): string {
+  let low = 0;
+  let high = table.cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (table.cumulative[mid] < random) low = mid + 1;
+    else high = mid;
+  }
+  return table.values[low];
+}
+
+// Deterministic so estimates do not shift between page loads
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function grammarProbability(
+  structures: WeightedTable,
+  terminals: Map<string, WeightedTable>,
+  segments: PcfgSegment[]
+): number {
+  let probability = structures.probabilities.get(structureOf(segments)) ?? 0;
+  for (const segment of segments) {
+    const table = terminals.get(`${segment.type}${segment.length}`);
+    probability *= table?.probabilities.get(segment.value) ?? 0;
+  }
+  return probability;
+}
+
+/**
+ * Draws sample passwords from the grammar and sorts their probabilities, so the guess
+ * number of any probability p can be estimated as the sum of 1 / (n * p_i) over the
+ * samples more likely than p (Dell'Amico & Filippone, 2015).
+ */
+function compileGrammar(model: PcfgModel): CompiledGrammar {
+  const structures = weightedTable(model.structures);
+  const terminals = new Map(
+    Object.entries(model.terminals).map(([key, counts]) => [key, weightedTable(counts)])
+  );
+
+  const random = mulberry32(SAMPLING_SEED);
+  const samples: number[] = [];
+  for (let i = 0; i < MONTE_CARLO_SAMPLES; i++) {
+    const structure = pick(structures, random());
+    let probability = structures.probabilities.get(structure);
+    for (const [, key] of structure.matchAll(/([LDS]\d+)/g)) {
+      const table = terminals.get(key);
+      probability *= table.probabilities.get(pick(table, random()));
+    }
+    samples.push(probability);
+  }
+  samples.sort((a, b) => b - a);
+
+  const sampleGuesses: number[] = [];
+  let running = 0;
+  for (const probability of samples) {
+    running += 1 / (MONTE_CARLO_SAMPLES * probability);
+    sampleGuesses.push(running);
+  }
+
+  return { structures, terminals, sampleProbabilities: samples, sampleGuesses };
+}
+
+export function setPcfgModel(model: PcfgModel) {
+  grammar = compileGrammar(model);
+}
+
+export function isPcfgModelLoaded(): boolean {
+  return grammar !== null;
+}
+
+export function loadPcfgModel(): Promise<void> {
+  if (grammar) return Promise.resolve();
+  if (!pending) {
+    pending = loadTextAsset('models/pcfg.json.gz')
+      .then(text => setPcfgModel(JSON.parse(text)))
+      .finally(() => {
+        pending = null;
+      });
+  }
+  return pending;
+}
+
+function estimateGuesses(compiled: CompiledGrammar, probability: number): number {
+  // Number of samples strictly more likely than `probability`
+  let low = 0;
+  let high = compiled.sampleProbabilities.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compiled.sampleProbabilities[mid] > probability) low = mid + 1;
+    else high = mid;
+  }
+  return low === 0 ? 1 : compiled.sampleGuesses[low - 1] + 1;
+}
+
+/**
+ * Scores the password against the grammar. Capitalisation is not in the training data,
+ * so the guess number is multiplied by the capitalisation variants of the password.
+ */
+export function analyzePcfg(password: string): PcfgAnalysis {
+  if (!grammar || !password) return EMPTY_PCFG_ANALYSIS;
+
+  const segments = segmentPassword(password);
+  const probability = grammarProbability(grammar.structures, grammar.terminals, segments);
+  const covered = probability > 0;
+
+  return {
+    available: true,
+    structure: structureOf(segments),
+    segments,
+    probability,
+    covered,
+    guesses: covered ? estimateGuesses(grammar, probability) * uppercaseVariations(password) : Infinity,
+  };
+}
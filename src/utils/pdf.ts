@@ -0,0 +1,103 @@
+/** An RGB colour with channels from 0 to 1. */
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+/** Coordinates are points from the top-left corner, unlike PDF's bottom-left. */
+export interface PdfPage {
+  text(x: number, y: number, text: string, options?: PdfTextOptions): void;
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void;
+  line(x1: number, y1: number, x2: number, y2: number, color?: PdfColor, width?: number): void;
+}
+
+export interface PdfDocument {
+  addPage(): PdfPage;
+  toBytes(): Uint8Array;
+}
+
+export const A4 = { width: 595, height: 842 };
+
+const BLACK: PdfColor = [0, 0, 0];
+
+/** Characters outside Latin-1 that WinAnsiEncoding still has; anything else prints as '?'. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    const byte = code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : WIN_ANSI_EXTRAS[char] ?? 0x3f;
+    const escaped = String.fromCharCode(byte);
+    encoded += escaped === '(' || escaped === ')' || escaped === '\\' ? `\\${escaped}` : escaped;
+  }
+  return encoded;
+}
+
+const number = (value: number) => String(Math.round(value * 100) / 100);
+const rgb = ([r, g, b]: PdfColor) => [r, g, b].map(number).join(' ');
+
+/**
+ * Writes A4 pages of Helvetica text, lines and filled rectangles: enough for a printable
+ * report without a PDF library. Text is WinAnsi-encoded, so it covers Western scripts only.
+ */
+export function createPdf(): PdfDocument {
+  const pages: string[][] = [];
+
+  return {
+    addPage() {
+      const ops: string[] = [];
+      pages.push(ops);
+      const flip = (y: number) => A4.height - y;
+      return {
+        text(x, y, text, { size = 10, bold = false, color = BLACK } = {}) {
+          ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${rgb(color)} rg ${number(x)} ${number(flip(y))} Td (${encodeText(text)}) Tj ET`);
+        },
+        rect(x, y, width, height, color) {
+          ops.push(`${rgb(color)} rg ${number(x)} ${number(flip(y + height))} ${number(width)} ${number(height)} re f`);
+        },
+        line(x1, y1, x2, y2, color = BLACK, width = 1) {
+          ops.push(`${rgb(color)} RG ${number(width)} w ${number(x1)} ${number(flip(y1))} m ${number(x2)} ${number(flip(y2))} l S`);
+        },
+      };
+    },
+
+    toBytes() {
+      // Objects 1-4 are fixed; each page then adds a page object and its content stream
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      ];
+      pages.forEach((ops, i) => {
+        const content = ops.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+          `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+        );
+      });
+
+      let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+      const offsets = objects.map((body, i) => {
+        const offset = output.length;
+        output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+      });
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      // Every character is a single byte by now
+      return Uint8Array.from(output, char => char.charCodeAt(0));
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createRankedDictionary, registerDictionary } from './dictionary';
+import { evaluatePolicy, parsePolicy, passwordPolicySchema, PasswordPolicy, POLICY_PRESETS } from './policy';
+
+const STRONG = 'Vx7#tundra-quill-Orbit9';
+
+const ruleOf = (password: string, policy: PasswordPolicy, context = {}) =>
+  evaluatePolicy(password, policy, context).rules[0];
+
+describe('POLICY_PRESETS', () => {
+  it('are all valid policies', () => {
+    for (const preset of POLICY_PRESETS) {
+      expect(passwordPolicySchema.safeParse(preset).success).toBe(true);
+    }
+  });
+});
+
+describe('parsePolicy', () => {
+  it('reads YAML and JSON', () => {
+    const yaml = parsePolicy('id: corp\nname: Corporate\nminLength: 10\nrequiredClasses: [digits]\n');
+    const json = parsePolicy('{"id": "corp", "name": "Corporate", "minLength": 10, "requiredClasses": ["digits"]}');
+    expect(yaml).toEqual({ id: 'corp', name: 'Corporate', minLength: 10, requiredClasses: ['digits'] });
+    expect(json).toEqual(yaml);
+  });
+
+  it('names the first invalid field', () => {
+    expect(() => parsePolicy('id: corp\nname: Corporate\nminLength: -1')).toThrow(/^Invalid policy: minLength /);
+    expect(() => parsePolicy('id: corp\nname: Corporate\nminLenght: 8')).toThrow(/^Invalid policy: /);
+    expect(() => parsePolicy('name: Corporate')).toThrow(/^Invalid policy: id /);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('counts length in graphemes', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', minLength: 4, maxLength: 5 };
+    expect(evaluatePolicy('👨‍👩‍👧abc', policy).status).toBe('pass');
+    expect(evaluatePolicy('abc', policy).rules[0]).toMatchObject({ status: 'fail', detail: '1 more characters needed' });
+  });
+
+  it('lists the missing character classes', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', requiredClasses: ['uppercase', 'digits', 'symbols'] };
+    expect(ruleOf('lowercase', policy)).toMatchObject({
+      status: 'fail',
+      detail: 'Missing an uppercase letter, a digit, a symbol',
+    });
+    expect(ruleOf(STRONG, policy).status).toBe('pass');
+  });
+
+  it('finds banned terms through lookalike characters', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', bannedWords: ['acme'] };
+    expect(ruleOf('\u0430cme-rocks-2024', policy).status).toBe('fail');
+    expect(ruleOf(STRONG, policy).status).toBe('pass');
+  });
+
+  it('compares attack guesses with the minimum', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', minGuesses: 1e10 };
+    expect(ruleOf('password1', policy).status).toBe('fail');
+    expect(ruleOf(STRONG, policy).status).toBe('pass');
+  });
+
+  it('skips the breach rule until a lookup has run', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', minLength: 8, checkBreaches: true };
+    expect(evaluatePolicy(STRONG, policy).status).toBe('skipped');
+    expect(evaluatePolicy(STRONG, policy, { breached: true }).status).toBe('fail');
+    expect(evaluatePolicy(STRONG, policy, { breached: false }).status).toBe('pass');
+  });
+
+  it('rejects personal details only when some were given', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', rejectUserContext: true };
+    expect(ruleOf('smith-orbit-9', policy).status).toBe('skipped');
+    expect(ruleOf('smith-orbit-9', policy, { userInputs: { name: 'Jo Smith' } }).status).toBe('fail');
+    expect(ruleOf(STRONG, policy, { userInputs: { name: 'Jo Smith' } }).status).toBe('pass');
+  });
+
+  it('bans whole words from loaded lists, with l33t undone', () => {
+    const policy: PasswordPolicy = { id: 'p', name: 'P', bannedDictionaries: ['passwords'] };
+    expect(ruleOf('dragon', policy)).toMatchObject({ status: 'skipped', detail: 'Word lists are still loading' });
+
+    registerDictionary(createRankedDictionary('passwords', ['password', 'dragon']));
+    expect(ruleOf('Dr4g0n', policy)).toMatchObject({ status: 'fail', detail: 'Listed in Common passwords, rank 2' });
+    // A listed word inside a longer password is left to the strength rules
+    expect(ruleOf('dragon-orbit', policy).status).toBe('pass');
+  });
+});
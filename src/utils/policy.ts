@@ -0,0 +1,239 @@
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { analyzePassword, PasswordAnalysis } from './passwordAnalysis';
+import { DICTIONARY_LABELS } from './dictionary';
+import { USER_INPUTS_DICTIONARY, UserInputs } from './userInputs';
+import { toMatchingForm } from './unicode';
+import { formatGuesses } from './format';
+
+export type CharacterClass = 'lowercase' | 'uppercase' | 'letters' | 'digits' | 'symbols';
+
+export const CHARACTER_CLASS_LABELS: Record<CharacterClass, string> = {
+  lowercase: 'a lowercase letter',
+  uppercase: 'an uppercase letter',
+  letters: 'a letter',
+  digits: 'a digit',
+  symbols: 'a symbol',
+};
+
+/**
+ * A declarative password policy, as stored in JSON or YAML. Every rule is optional;
+ * rules that are left out are not checked.
+ */
+export interface PasswordPolicy {
+  id: string;
+  name: string;
+  description?: string;
+  /** Where the rules come from, e.g. a section of the standard. */
+  reference?: string;
+  /** In characters as a person counts them (grapheme clusters). */
+  minLength?: number;
+  maxLength?: number;
+  requiredClasses?: CharacterClass[];
+  /** Reject passwords that are, in full and with l33t undone, a word in one of these dictionaries. */
+  bannedDictionaries?: string[];
+  /** Organisation-specific terms the password may not contain, case-insensitively. */
+  bannedWords?: string[];
+  /** Fewest guesses an attacker may need, compared against `attackGuesses`. */
+  minGuesses?: number;
+  /** Require a breach corpus lookup that finds nothing. */
+  checkBreaches?: boolean;
+  /** Reject passwords built from the user's name, email, username or the site. */
+  rejectUserContext?: boolean;
+}
+
+export type PolicyRuleId =
+  | 'minLength'
+  | 'maxLength'
+  | 'requiredClasses'
+  | 'bannedDictionaries'
+  | 'bannedWords'
+  | 'minGuesses'
+  | 'checkBreaches'
+  | 'rejectUserContext';
+
+/** `skipped` means the rule could not be checked, e.g. no breach lookup has run yet. */
+export type PolicyStatus = 'pass' | 'fail' | 'skipped';
+
+export interface PolicyRuleResult {
+  rule: PolicyRuleId;
+  label: string;
+  status: PolicyStatus;
+  detail: string;
+}
+
+export interface PolicyResult {
+  policy: PasswordPolicy;
+  /** `pass` only when every rule passed; `skipped` when none failed but some were not checked. */
+  status: PolicyStatus;
+  rules: PolicyRuleResult[];
+}
+
+export interface PolicyContext {
+  userInputs?: UserInputs;
+  /** Outcome of a breach lookup for this password, if one has run. */
+  breached?: boolean;
+  /** An analysis of the same password, to avoid running it again. */
+  analysis?: PasswordAnalysis;
+}
+
+export const passwordPolicySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  reference: z.string().optional(),
+  minLength: z.number().int().positive().optional(),
+  maxLength: z.number().int().positive().optional(),
+  requiredClasses: z.array(z.enum(['lowercase', 'uppercase', 'letters', 'digits', 'symbols'])).optional(),
+  bannedDictionaries: z.array(z.string()).optional(),
+  bannedWords: z.array(z.string()).optional(),
+  minGuesses: z.number().positive().optional(),
+  checkBreaches: z.boolean().optional(),
+  rejectUserContext: z.boolean().optional(),
+}).strict();
+
+export const POLICY_PRESETS: PasswordPolicy[] = [
+  {
+    id: 'nist-800-63b',
+    name: 'NIST SP 800-63B',
+    description: 'Memorised secrets: length over complexity, screened against known-bad values.',
+    reference: 'SP 800-63B §5.1.1.2',
+    minLength: 8,
+    bannedDictionaries: ['passwords', 'english'],
+    checkBreaches: true,
+    rejectUserContext: true,
+  },
+  {
+    id: 'owasp-asvs',
+    name: 'OWASP ASVS 4.0',
+    description: 'Level 1 password security requirements.',
+    reference: 'ASVS 4.0.3 V2.1.1, V2.1.2, V2.1.7',
+    minLength: 12,
+    maxLength: 128,
+    bannedDictionaries: ['passwords'],
+    checkBreaches: true,
+  },
+  {
+    id: 'pci-dss-4',
+    name: 'PCI DSS 4.0',
+    description: 'Passwords for system components in the cardholder data environment.',
+    reference: 'PCI DSS 4.0 Requirement 8.3.6',
+    minLength: 12,
+    requiredClasses: ['letters', 'digits'],
+  },
+  {
+    id: 'cis',
+    name: 'CIS Password Policy Guide',
+    description: 'Passwords for accounts without multi-factor authentication.',
+    reference: 'CIS Password Policy Guide (2021)',
+    minLength: 14,
+    bannedDictionaries: ['passwords'],
+    checkBreaches: true,
+  },
+];
+
+/** Reads a policy from JSON or YAML text and validates it, throwing on invalid input. */
+export function parsePolicy(text: string): PasswordPolicy {
+  // YAML is a superset of JSON, so one parser handles both
+  const result = passwordPolicySchema.safeParse(parseYaml(text));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid policy: ${issue.path.join('.') || 'policy'} ${issue.message.toLowerCase()}`);
+  }
+  return result.data as PasswordPolicy;
+}
+
+const CLASS_PATTERNS: Record<CharacterClass, RegExp> = {
+  lowercase: /\p{Ll}/u,
+  uppercase: /\p{Lu}/u,
+  letters: /\p{L}/u,
+  digits: /\p{N}/u,
+  symbols: /[^\p{L}\p{N}]/u,
+};
+
+const pass = (detail: string) => ({ status: 'pass' as const, detail });
+const fail = (detail: string) => ({ status: 'fail' as const, detail });
+
+/** Checks a password against each rule the policy sets, in a fixed order. */
+export function evaluatePolicy(
+  password: string,
+  policy: PasswordPolicy,
+  context: PolicyContext = {}
+): PolicyResult {
+  const analysis = context.analysis ?? analyzePassword(password, { userInputs: context.userInputs, entropyPerCharacter: false });
+  const rules: PolicyRuleResult[] = [];
+  const add = (rule: PolicyRuleId, label: string, result: { status: PolicyStatus; detail: string }) =>
+    rules.push({ rule, label, ...result });
+
+  if (policy.minLength !== undefined) {
+    add('minLength', `At least ${policy.minLength} characters`,
+      analysis.length >= policy.minLength
+        ? pass(`${analysis.length} characters`)
+        : fail(`${policy.minLength - analysis.length} more characters needed`));
+  }
+
+  if (policy.maxLength !== undefined) {
+    add('maxLength', `At most ${policy.maxLength} characters`,
+      analysis.length <= policy.maxLength
+        ? pass(`${analysis.length} characters`)
+        : fail(`${analysis.length - policy.maxLength} characters too long`));
+  }
+
+  if (policy.requiredClasses?.length) {
+    const missing = policy.requiredClasses.filter(c => !CLASS_PATTERNS[c].test(password));
+    add('requiredClasses', `Contains ${policy.requiredClasses.map(c => CHARACTER_CLASS_LABELS[c]).join(', ')}`,
+      missing.length === 0
+        ? pass('All required character types present')
+        : fail(`Missing ${missing.map(c => CHARACTER_CLASS_LABELS[c]).join(', ')}`));
+  }
+
+  if (policy.bannedDictionaries?.length) {
+    const ranks = analysis.wholeWordRanks;
+    // The first banned list holding the whole password, in the order the lists were loaded
+    const listed = Object.keys(ranks).find(name => ranks[name] !== null && policy.bannedDictionaries.includes(name));
+    const lists = policy.bannedDictionaries.map(name => DICTIONARY_LABELS[name] ?? name).join(', ');
+    add('bannedDictionaries', `Not a known word or password (${lists})`,
+      listed
+        ? fail(`Listed in ${DICTIONARY_LABELS[listed] ?? listed}, rank ${ranks[listed].toLocaleString()}`)
+        : policy.bannedDictionaries.every(name => name in ranks)
+          ? pass('Not found in the banned lists')
+          : { status: 'skipped', detail: 'Word lists are still loading' });
+  }
+
+  if (policy.bannedWords?.length) {
+    const text = toMatchingForm(password).toLowerCase();
+    const found = policy.bannedWords.filter(word => word && text.includes(word.toLowerCase()));
+    add('bannedWords', 'Contains no banned terms',
+      found.length === 0 ? pass('No banned terms') : fail(`Contains ${found.length} banned term(s)`));
+  }
+
+  if (policy.minGuesses !== undefined) {
+    add('minGuesses', `Needs at least ${formatGuesses(policy.minGuesses)} guesses`,
+      analysis.attackGuesses >= policy.minGuesses
+        ? pass(`About ${formatGuesses(analysis.attackGuesses)} guesses`)
+        : fail(`Only about ${formatGuesses(analysis.attackGuesses)} guesses`));
+  }
+
+  if (policy.checkBreaches) {
+    add('checkBreaches', 'Not found in known breaches',
+      context.breached === undefined
+        ? { status: 'skipped', detail: 'Run a breach check to evaluate this rule' }
+        : context.breached ? fail('Found in a breach corpus') : pass('Not found in the breach corpus'));
+  }
+
+  if (policy.rejectUserContext) {
+    const personal = analysis.matches.some(m => m.dictionaryName === USER_INPUTS_DICTIONARY);
+    add('rejectUserContext', 'Not based on your name, email, username or the site',
+      personal
+        ? fail('Contains your own details')
+        : Object.values(context.userInputs ?? {}).some(Boolean)
+          ? pass('No personal details found')
+          : { status: 'skipped', detail: 'Fill in "About you" to evaluate this rule' });
+  }
+
+  const status: PolicyStatus = rules.some(r => r.status === 'fail')
+    ? 'fail'
+    : rules.some(r => r.status === 'skipped') ? 'skipped' : 'pass';
+
+  return { policy, status, rules };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRONOUNCEABLE_OPTIONS, generatePronounceable, PronounceableOptions, pronounceableSpace } from './pronounceable';
+
+const options = (changes: Partial<PronounceableOptions>): PronounceableOptions => ({
+  ...DEFAULT_PRONOUNCEABLE_OPTIONS,
+  ...changes,
+});
+
+describe('pronounceableSpace', () => {
+  it('counts small spaces exactly', () => {
+    // One CV syllable, 18 consonants by 5 vowels
+    expect(pronounceableSpace(options({ length: 2, templates: ['CV'], uppercase: 0, digits: 0 })).size).toBe(90n);
+  });
+
+  it('stays finite past 2^1024', () => {
+    const space = pronounceableSpace(options({ length: 128, digits: 64, symbols: 64 }));
+    expect(space.size > 2n ** 1024n).toBe(true);
+    expect(Number.isFinite(space.entropy)).toBe(true);
+  });
+});
+
+describe('generatePronounceable', () => {
+  it('draws from spaces that overflow a double', () => {
+    const password = generatePronounceable(options({ length: 128, digits: 64, symbols: 64 }));
+    expect(password.match(/[a-z]/gi)).toHaveLength(128);
+    expect(password.match(/\d/g)).toHaveLength(64);
+  });
+});
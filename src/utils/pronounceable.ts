@@ -0,0 +1,180 @@
+import { bigLog2, DEFAULT_SYMBOLS } from './generator';
+import { randomBigInt, randomChoice, shuffle } from './random';
+
+export type SyllableTemplate = 'CV' | 'CVC';
+
+// Single letters only: a consonant followed by a vowel always opens a new syllable,
+// so every output splits into syllables one way and counting strings counts choices.
+const CONSONANTS = 'bcdfghjklmnprstvwz';
+const VOWELS = 'aeiou';
+
+const TEMPLATE_SIZES: Record<SyllableTemplate, bigint> = {
+  CV: BigInt(CONSONANTS.length * VOWELS.length),
+  CVC: BigInt(CONSONANTS.length * VOWELS.length * CONSONANTS.length),
+};
+
+export interface PronounceableOptions {
+  /** Letters, not counting separators or injected characters. */
+  length: number;
+  templates: SyllableTemplate[];
+  /** Placed between syllables; empty for none. */
+  separator: string;
+  /** Letters to capitalise. */
+  uppercase: number;
+  /** Digits to insert at random positions. */
+  digits: number;
+  /** Symbols to insert at random positions. */
+  symbols: number;
+  symbolSet: string;
+}
+
+export const DEFAULT_PRONOUNCEABLE_OPTIONS: PronounceableOptions = {
+  length: 12,
+  templates: ['CV', 'CVC'],
+  separator: '',
+  uppercase: 1,
+  digits: 2,
+  symbols: 0,
+  symbolSet: DEFAULT_SYMBOLS,
+};
+
+export interface PronounceableSpace {
+  /** Exact, so long settings with many insertions do not overflow to Infinity. */
+  size: bigint;
+  entropy: number;
+}
+
+function binomial(n: number, k: number): bigint {
+  if (k < 0 || k > n) return 0n;
+  // Each step is C(n - k + i, i), so the division is exact
+  let result = 1n;
+  for (let i = 1; i <= k; i++) result = (result * BigInt(n - k + i)) / BigInt(i);
+  return result;
+}
+
+/** Symbols that cannot be confused with letters, digits or the separator. */
+function usableSymbols(options: PronounceableOptions): string[] {
+  return Array.from(new Set(options.symbolSet)).filter(
+    char => !/[A-Za-z0-9]/.test(char) && !options.separator.includes(char)
+  );
+}
+
+/** `counts[s]` is the number of letter strings of the requested length made of `s` syllables. */
+function syllableCounts(options: PronounceableOptions): bigint[][] {
+  // table[length][syllables]
+  const table: bigint[][] = [[1n]];
+  for (let length = 1; length <= options.length; length++) {
+    table[length] = [];
+    for (let syllables = 1; syllables <= length; syllables++) {
+      let total = 0n;
+      for (const template of options.templates) {
+        const previous = table[length - template.length]?.[syllables - 1] ?? 0n;
+        total += previous * TEMPLATE_SIZES[template];
+      }
+      table[length][syllables] = total;
+    }
+  }
+  return table;
+}
+
+/** Ways to finish a base string with `syllables` syllables: capitals, then insertions. */
+function decorations(options: PronounceableOptions, syllables: number, symbolCount: number): bigint {
+  const baseLength = options.length + (options.separator ? (syllables - 1) * options.separator.length : 0);
+  const inserted = options.digits + options.symbols;
+  return (
+    binomial(options.length, options.uppercase) *
+    binomial(baseLength + inserted, inserted) *
+    binomial(inserted, options.digits) *
+    10n ** BigInt(options.digits) *
+    BigInt(symbolCount) ** BigInt(options.symbols)
+  );
+}
+
+/**
+ * Counts every output the construction can produce. Each is produced by exactly one
+ * sequence of choices, and `generatePronounceable` picks uniformly among them, so the
+ * entropy is exact.
+ */
+export function pronounceableSpace(options: PronounceableOptions): PronounceableSpace {
+  const table = syllableCounts(options);
+  const symbolCount = usableSymbols(options).length;
+  if (options.symbols > 0 && symbolCount === 0) return { size: 0n, entropy: 0 };
+
+  let size = 0n;
+  (table[options.length] ?? []).forEach((count, syllables) => {
+    if (count) size += count * decorations(options, syllables, symbolCount);
+  });
+  return { size, entropy: size > 0n ? bigLog2(size) : 0 };
+}
+
+/** An index drawn with probability proportional to its weight; missing weights count as 0. */
+function weightedIndex(weights: bigint[]): number {
+  const total = weights.reduce((sum, weight) => sum + (weight ?? 0n), 0n);
+  let target = randomBigInt(total);
+  for (let index = 0; index < weights.length; index++) {
+    const weight = weights[index] ?? 0n;
+    if (target < weight) return index;
+    target -= weight;
+  }
+  return -1;
+}
+
+function syllable(template: SyllableTemplate): string {
+  const open = randomChoice(CONSONANTS) + randomChoice(VOWELS);
+  return template === 'CVC' ? open + randomChoice(CONSONANTS) : open;
+}
+
+export function generatePronounceable(options: PronounceableOptions): string {
+  const table = syllableCounts(options);
+  const symbols = usableSymbols(options);
+  if (pronounceableSpace(options).size === 0n) {
+    throw new Error('No pronounceable password matches these settings');
+  }
+
+  // Number of syllables, weighted by how many outputs each count leads to
+  const row = table[options.length];
+  let syllables = weightedIndex(
+    Array.from(row, (count, s) => (count ? count * decorations(options, s, symbols.length) : 0n))
+  );
+
+  // Syllables from last to first, each template weighted by the strings it leaves
+  const parts: string[] = [];
+  let remaining = options.length;
+  while (syllables > 0) {
+    const weights = options.templates.map(
+      template => (table[remaining - template.length]?.[syllables - 1] ?? 0n) * TEMPLATE_SIZES[template]
+    );
+    const template = options.templates[weightedIndex(weights)];
+    parts.unshift(syllable(template));
+    remaining -= template.length;
+    syllables--;
+  }
+
+  const letters = Array.from(parts.join(''));
+  for (const index of shuffle(letters.keys()).slice(0, options.uppercase)) {
+    letters[index] = letters[index].toUpperCase();
+  }
+
+  // Re-split the letters into syllables to place the separator between them
+  const output: string[] = [];
+  let offset = 0;
+  parts.forEach((part, i) => {
+    if (i > 0 && options.separator) output.push(options.separator);
+    output.push(letters.slice(offset, offset + part.length).join(''));
+    offset += part.length;
+  });
+  const base = Array.from(output.join(''));
+
+  const inserted = shuffle([
+    ...Array.from({ length: options.digits }, () => randomChoice('0123456789')),
+    ...Array.from({ length: options.symbols }, () => randomChoice(symbols)),
+  ]);
+  const finalLength = base.length + inserted.length;
+  const positions = new Set(shuffle(Array.from({ length: finalLength }, (_, i) => i)).slice(0, inserted.length));
+
+  const result: string[] = [];
+  for (let i = 0; i < finalLength; i++) {
+    result.push(positions.has(i) ? inserted.pop() : base.shift());
+  }
+  return result.join('');
+}
@@ -0,0 +1,66 @@
+/** Shown wherever generated secrets are displayed, so users know where the randomness came from. */
+export const ENTROPY_SOURCE = 'Web Crypto CSPRNG (crypto.getRandomValues)';
+
+const UINT32_RANGE = 2 ** 32;
+
+// Refilled in blocks; one call to getRandomValues per value would dominate generation time
+const pool = new Uint32Array(256);
+let poolIndex = pool.length;
+
+export function randomUint32(): number {
+  if (poolIndex === pool.length) {
+    crypto.getRandomValues(pool);
+    poolIndex = 0;
+  }
+  return pool[poolIndex++];
+}
+
+/**
+ * A uniform integer in `[0, max)`. Values from the top of the 32-bit range that would
+ * make some results more likely than others are rejected and redrawn.
+ */
+export function randomInt(max: number): number {
+  if (!Number.isInteger(max) || max < 1 || max > UINT32_RANGE) {
+    throw new RangeError(`randomInt: max must be an integer from 1 to 2^32, got ${max}`);
+  }
+  const limit = UINT32_RANGE - (UINT32_RANGE % max);
+  let value = randomUint32();
+  while (value >= limit) value = randomUint32();
+  return value % max;
+}
+
+/** A uniform float in `[0, 1)` with all 53 bits of the mantissa random. */
+export function randomFraction(): number {
+  const high = randomUint32() >>> 5;
+  const low = randomUint32() >>> 6;
+  return (high * 67108864 + low) / 9007199254740992;
+}
+
+/** A uniform bigint in `[0, max)`, drawn 32 bits at a time and redrawn when it overshoots. */
+export function randomBigInt(max: bigint): bigint {
+  if (max < 1n) throw new RangeError(`randomBigInt: max must be at least 1, got ${max}`);
+  const bits = (max - 1n).toString(2).length;
+  const words = Math.ceil(bits / 32);
+  const excess = BigInt(words * 32 - bits);
+  for (;;) {
+    let value = 0n;
+    for (let i = 0; i < words; i++) value = (value << 32n) | BigInt(randomUint32());
+    value >>= excess;
+    if (value < max) return value;
+  }
+}
+
+export function randomChoice<T>(items: ArrayLike<T>): T {
+  if (items.length === 0) throw new RangeError('randomChoice: no items to choose from');
+  return items[randomInt(items.length)];
+}
+
+/** Fisher–Yates shuffle into a new array; every permutation is equally likely. */
+export function shuffle<T>(items: Iterable<T>): T[] {
+  const result = Array.from(items);
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,32 @@
+import { BreachResult } from './breachIndex';
+import { PasswordAnalysis, PatternKind } from './passwordAnalysis';
+
+/** The parts of an analysis worth handing to another program; the password itself is left out. */
+export interface AnalysisReport {
+  score: number;
+  strength: PasswordAnalysis['strength'];
+  length: number;
+  entropy: number;
+  effectiveEntropy: number;
+  guesses: number;
+  crackTime: string;
+  patterns: { kind: PatternKind; token: string; guesses: number }[];
+  feedback: string[];
+  /** Only when a breach provider ran. */
+  breach?: BreachResult;
+}
+
+export function analysisReport(analysis: PasswordAnalysis): AnalysisReport {
+  return {
+    score: analysis.score,
+    strength: analysis.strength,
+    length: analysis.length,
+    entropy: Math.round(analysis.entropy * 10) / 10,
+    effectiveEntropy: Math.round(analysis.effectiveEntropy * 10) / 10,
+    guesses: Math.round(analysis.attackGuesses),
+    crackTime: analysis.crackTime,
+    patterns: analysis.matches.map(match => ({ kind: match.kind, token: match.token, guesses: Math.round(match.guesses) })),
+    feedback: analysis.feedback,
+    breach: analysis.breach,
+  };
+}
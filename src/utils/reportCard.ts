@@ -0,0 +1,98 @@
+import { PATTERN_LABELS } from './passwordAnalysis';
+import { PdfColor } from './pdf';
+import { RedactedReport, STATUS_LABELS, STRENGTH_COLORS, STRENGTH_LABELS } from './reportExport';
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const FONT = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+const css = ([r, g, b]: PdfColor) => `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+/** Cuts `text` to fit `width` pixels, with an ellipsis when it had to. */
+function fit(context: CanvasRenderingContext2D, text: string, width: number): string {
+  if (context.measureText(text).width <= width) return text;
+  let end = text.length;
+  while (end > 0 && context.measureText(`${text.slice(0, end)}…`).width > width) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/** A 1200×630 summary card, sized for chat and slide previews, drawn on a canvas in the page. */
+export function reportToPng(report: RedactedReport): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const context = canvas.getContext('2d');
+  const color = css(STRENGTH_COLORS[report.strength]);
+  const left = 64;
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  context.fillStyle = color;
+  context.fillRect(0, 0, WIDTH, 12);
+
+  context.fillStyle = '#111827';
+  context.font = `600 36px ${FONT}`;
+  context.fillText('Password assessment', left, 84);
+  context.fillStyle = '#6b7280';
+  context.font = `20px ${FONT}`;
+  context.fillText(
+    `${new Date(report.generatedAt).toLocaleDateString()} · ${report.maskedPassword.slice(0, 32)} (${report.length} characters)`,
+    left,
+    120
+  );
+
+  // Strength bar, five segments as in the app
+  const segmentWidth = (WIDTH - left * 2 - 4 * 12) / 5;
+  for (let i = 0; i < 5; i++) {
+    context.fillStyle = i <= report.score ? color : '#e5e7eb';
+    context.fillRect(left + i * (segmentWidth + 12), 150, segmentWidth, 18);
+  }
+  context.fillStyle = color;
+  context.font = `700 56px ${FONT}`;
+  context.fillText(STRENGTH_LABELS[report.strength], left, 240);
+
+  const stats: [string, string][] = [
+    ['Score', `${report.score}/4`],
+    ['Guesses', report.guesses],
+    ['Crack time', report.crackTime],
+    ['Entropy', `${Math.round(report.effectiveEntropy)} bits`],
+  ];
+  const statWidth = (WIDTH - left * 2) / stats.length;
+  stats.forEach(([label, value], i) => {
+    const x = left + i * statWidth;
+    context.fillStyle = '#6b7280';
+    context.font = `20px ${FONT}`;
+    context.fillText(label, x, 300);
+    context.fillStyle = '#111827';
+    context.font = `600 30px ${FONT}`;
+    context.fillText(fit(context, value, statWidth - 24), x, 342);
+  });
+
+  const details: { text: string; color: string }[] = [];
+  if (report.breach?.breached) {
+    details.push({ text: 'Found in data breaches', color: '#dc2626' });
+  }
+  if (report.policy) {
+    details.push({
+      text: `${report.policy.name}: ${STATUS_LABELS[report.policy.status]}`,
+      color: report.policy.status === 'fail' ? '#dc2626' : '#111827',
+    });
+  }
+  const kinds = [...new Set(report.patterns.map(pattern => PATTERN_LABELS[pattern.kind]))];
+  details.push({ text: kinds.length ? `Patterns: ${kinds.join(', ')}` : 'No patterns detected', color: '#111827' });
+  for (const item of report.feedback) details.push({ text: item, color: '#374151' });
+
+  context.font = `22px ${FONT}`;
+  details.slice(0, 5).forEach((detail, i) => {
+    context.fillStyle = detail.color;
+    context.fillText(fit(context, `• ${detail.text}`, WIDTH - left * 2), left, 410 + i * 38);
+  });
+
+  context.fillStyle = '#9ca3af';
+  context.font = `16px ${FONT}`;
+  context.fillText('Generated in the browser by Password Strength Analyzer. The password is not included.', left, HEIGHT - 32);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render the report card'))), 'image/png')
+  );
+}
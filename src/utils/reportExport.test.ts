@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { withBreachResult } from './asyncAnalysis';
+import { analyzePassword } from './passwordAnalysis';
+import { POLICY_PRESETS, PolicyResult } from './policy';
+import { buildRedactedReport, reportToJson, reportToMarkdown } from './reportExport';
+
+const policy: PolicyResult = {
+  policy: POLICY_PRESETS[0],
+  status: 'fail',
+  rules: [
+    { rule: 'bannedDictionaries', label: 'Not a known word or password', status: 'fail', detail: 'Listed in Common passwords, rank 10' },
+    { rule: 'minLength', label: 'At least 8 characters', status: 'fail', detail: '2 more characters needed' },
+  ],
+};
+
+describe('buildRedactedReport', () => {
+  const report = buildRedactedReport(analyzePassword('dragon'), policy, new Date('2024-05-01T00:00:00Z'));
+
+  it('leaves out anything that narrows the password down', () => {
+    for (const text of [reportToJson(report), reportToMarkdown(report)]) {
+      expect(text).not.toMatch(/dragon/i);
+      expect(text).not.toMatch(/rank/i);
+      expect(text).not.toMatch(/entropyByCharacter/);
+    }
+    expect(report.patterns.every(pattern => !('guesses' in pattern))).toBe(true);
+  });
+
+  it('keeps rule details that reveal nothing', () => {
+    expect(report.policy.rules.map(rule => rule.detail)).toEqual(['Listed in Common passwords', '2 more characters needed']);
+  });
+
+  it('keeps only the order of magnitude of guesses and whether a breach was found', () => {
+    const breached = withBreachResult(analyzePassword('password123'), { breached: true, count: 123456 });
+    const report = buildRedactedReport(breached, undefined, new Date('2024-05-01T00:00:00Z'));
+    expect(report.breach).toEqual({ breached: true });
+    // 596 guesses
+    expect(report.guesses).toBe('10^2');
+    expect(report.zxcvbnGuesses).toBe('10^2');
+    expect(Number.isInteger(report.effectiveEntropy)).toBe(true);
+    expect(report.crackTimes.every(entry => !('seconds' in entry))).toBe(true);
+    for (const text of [reportToJson(report), reportToMarkdown(report)]) {
+      expect(text).not.toMatch(/123,?456|596/);
+    }
+  });
+});
@@ -0,0 +1,321 @@
+import { HASH_ALGORITHM_LABELS, HASH_ALGORITHMS, HashAlgorithm } from './attackerModel';
+import { A4, createPdf, PdfColor } from './pdf';
+import { PasswordAnalysis, PATTERN_LABELS, PatternKind } from './passwordAnalysis';
+import { PolicyResult, PolicyRuleResult, PolicyStatus } from './policy';
+
+/** Bumped whenever a field is renamed or removed; new optional fields keep the version. */
+export const REPORT_SCHEMA_VERSION = 3;
+
+export const REPORT_FORMAT = 'strong-pass-scanner/analysis-report';
+
+/**
+ * An assessment safe to attach to a review. It never holds the password or anything that
+ * narrows it down: patterns keep their kind and length but not the matched text, and guess
+ * counts are cut to an order of magnitude, since for a dictionary word the exact count is its
+ * rank in the list. A breach is reported as found or not, without how often. Version 2 dropped
+ * per-pattern guesses and the per-character entropy chart; version 3 bucketed the totals and
+ * dropped the breach count and per-hash seconds.
+ */
+export interface RedactedReport {
+  format: typeof REPORT_FORMAT;
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  /** ISO 8601. */
+  generatedAt: string;
+  /** One bullet per character, so reviewers see the length and nothing else. */
+  maskedPassword: string;
+  score: number;
+  strength: PasswordAnalysis['strength'];
+  length: number;
+  entropy: number;
+  /** Whole bits, as finer steps would give back the guess count. */
+  effectiveEntropy: number;
+  /** Fewest guesses any model needs, as a power of ten, e.g. `10^7`. */
+  guesses: string;
+  zxcvbnGuesses: string;
+  crackTime: string;
+  patterns: { kind: PatternKind; length: number }[];
+  crackTimes: { algorithm: HashAlgorithm; label: string; guessesPerSecond: string; time: string }[];
+  breach?: { breached: boolean };
+  policy?: {
+    id: string;
+    name: string;
+    status: PolicyStatus;
+    rules: { label: string; status: PolicyStatus; detail: string }[];
+  };
+  feedback: string[];
+  charts: {
+    characterClasses: { uppercase: number; lowercase: number; numbers: number; symbols: number; otherLetters: number };
+  };
+}
+
+export type ExportFormat = 'json' | 'markdown' | 'pdf' | 'png';
+
+export const STRENGTH_LABELS: Record<PasswordAnalysis['strength'], string> = {
+  'very-weak': 'Very Weak',
+  weak: 'Weak',
+  fair: 'Fair',
+  strong: 'Strong',
+  'very-strong': 'Very Strong',
+};
+
+export const STATUS_LABELS: Record<PolicyStatus, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  skipped: 'Not checked',
+};
+
+const CLASS_LABELS: Record<keyof RedactedReport['charts']['characterClasses'], string> = {
+  uppercase: 'Uppercase',
+  lowercase: 'Lowercase',
+  numbers: 'Numbers',
+  symbols: 'Symbols',
+  otherLetters: 'Uncased letters',
+};
+
+/** The strength meter's colours, as RGB for the PDF and the card. */
+export const STRENGTH_COLORS: Record<PasswordAnalysis['strength'], PdfColor> = {
+  'very-weak': [1, 0, 0],
+  weak: [1, 0.5, 0],
+  fair: [1, 0.75, 0],
+  strong: [0.16, 0.64, 0.16],
+  'very-strong': [0.06, 0.54, 0.06],
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** A guess count to the power of ten below it. */
+function magnitude(guesses: number): string {
+  if (!Number.isFinite(guesses)) return 'beyond model';
+  return `10^${Math.floor(Math.log10(Math.max(guesses, 1)))}`;
+}
+
+/** A rule's detail without the dictionary rank, which would name the word. */
+function ruleDetail({ rule, detail }: PolicyRuleResult): string {
+  return rule === 'bannedDictionaries' ? detail.replace(/, rank .*$/, '') : detail;
+}
+
+export function buildRedactedReport(
+  analysis: PasswordAnalysis,
+  policy?: PolicyResult,
+  generatedAt = new Date()
+): RedactedReport {
+  return {
+    format: REPORT_FORMAT,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    maskedPassword: '•'.repeat(analysis.length),
+    score: analysis.score,
+    strength: analysis.strength,
+    length: analysis.length,
+    entropy: round(analysis.entropy),
+    effectiveEntropy: Math.round(analysis.effectiveEntropy),
+    guesses: magnitude(analysis.attackGuesses),
+    zxcvbnGuesses: magnitude(analysis.guesses),
+    crackTime: analysis.crackTime,
+    patterns: analysis.matches.map(match => ({ kind: match.kind, length: match.end - match.start })),
+    crackTimes: HASH_ALGORITHMS.map(algorithm => ({
+      algorithm,
+      label: HASH_ALGORITHM_LABELS[algorithm],
+      guessesPerSecond: analysis.hashStrength[algorithm].guessesPerSecond,
+      time: analysis.hashStrength[algorithm].time,
+    })),
+    breach: analysis.breach && { breached: analysis.breach.breached },
+    policy: policy && {
+      id: policy.policy.id,
+      name: policy.policy.name,
+      status: policy.status,
+      rules: policy.rules.map(rule => ({ label: rule.label, status: rule.status, detail: ruleDetail(rule) })),
+    },
+    feedback: analysis.feedback,
+    charts: {
+      characterClasses: { ...analysis.charDistribution },
+    },
+  };
+}
+
+export function reportToJson(report: RedactedReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/** Table cells may come from custom policies, so pipes are escaped. */
+const cell = (text: string | number) => String(text).replace(/\|/g, '\\|');
+
+export function reportToMarkdown(report: RedactedReport): string {
+  const lines = [
+    '# Password assessment',
+    '',
+    `Generated ${new Date(report.generatedAt).toLocaleString()}. The password is redacted (\`${report.maskedPassword}\`).`,
+    '',
+    '## Summary',
+    '',
+    '| | |',
+    '| --- | --- |',
+    `| Strength | ${STRENGTH_LABELS[report.strength]} (${report.score}/4) |`,
+    `| Length | ${report.length} characters |`,
+    `| Entropy | ${report.entropy} bits brute-force, ${report.effectiveEntropy} effective |`,
+    `| Guesses | About ${report.guesses} |`,
+    `| Crack time | ${cell(report.crackTime)} |`,
+  ];
+  if (report.breach) {
+    lines.push(`| Breaches | ${report.breach.breached ? 'Found' : 'Not found'} |`);
+  }
+
+  lines.push('', '## Crack times by hash', '', '| Hash | Guesses per second | Time |', '| --- | --- | --- |');
+  for (const row of report.crackTimes) lines.push(`| ${row.label} | ${row.guessesPerSecond} | ${cell(row.time)} |`);
+
+  lines.push('', '## Patterns', '');
+  if (report.patterns.length === 0) lines.push('No patterns detected.');
+  for (const pattern of report.patterns) {
+    lines.push(`- ${PATTERN_LABELS[pattern.kind]}: ${pattern.length} characters`);
+  }
+
+  if (report.policy) {
+    lines.push('', `## Policy: ${report.policy.name} (${STATUS_LABELS[report.policy.status]})`, '');
+    lines.push('| Rule | Result | Detail |', '| --- | --- | --- |');
+    for (const rule of report.policy.rules) {
+      lines.push(`| ${cell(rule.label)} | ${STATUS_LABELS[rule.status]} | ${cell(rule.detail)} |`);
+    }
+  }
+
+  lines.push('', '## Character classes', '');
+  const classes = report.charts.characterClasses;
+  const longest = Math.max(1, ...Object.values(classes));
+  for (const [name, count] of Object.entries(classes) as [keyof typeof classes, number][]) {
+    if (count > 0) lines.push(`- ${CLASS_LABELS[name]}: ${'█'.repeat(Math.round((count / longest) * 20))} ${count}`);
+  }
+
+  lines.push('', '## Recommendations', '', ...report.feedback.map(item => `- ${item}`), '');
+  return lines.join('\n');
+}
+
+/** Splits text into lines of at most `width` characters, at spaces where it can. */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    if (current && current.length + 1 + word.length > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  return [...lines, current];
+}
+
+const MUTED: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.85, 0.85, 0.85];
+const DANGER: PdfColor = [0.8, 0, 0];
+
+/** A printable A4 report with the same sections as the Markdown one, with a character class chart. */
+export function reportToPdf(report: RedactedReport): Uint8Array {
+  const pdf = createPdf();
+  const margin = 48;
+  const right = A4.width - margin;
+  let page = pdf.addPage();
+  let y = margin;
+
+  const ensure = (height: number) => {
+    if (y + height > A4.height - margin) {
+      page = pdf.addPage();
+      y = margin;
+    }
+  };
+  const heading = (text: string) => {
+    ensure(40);
+    y += 14;
+    page.text(margin, y, text, { size: 13, bold: true });
+    y += 6;
+    page.line(margin, y, right, y, RULE);
+    y += 14;
+  };
+  const row = (columns: [string, number][], options: { bold?: boolean; color?: PdfColor } = {}) => {
+    ensure(14);
+    for (const [text, x] of columns) page.text(x, y, text, { size: 10, ...options });
+    y += 14;
+  };
+  const paragraph = (text: string, color?: PdfColor) => {
+    for (const line of wrap(text, 95)) row([[line, margin]], { color });
+  };
+
+  page.text(margin, y + 12, 'Password assessment', { size: 20, bold: true });
+  y += 30;
+  page.text(margin, y, `Generated ${new Date(report.generatedAt).toLocaleString()}. Password redacted: ${report.maskedPassword}`, {
+    size: 9,
+    color: MUTED,
+  });
+  y += 22;
+
+  // Strength bar, five segments as in the app
+  const segments = report.score + 1;
+  const segmentWidth = (right - margin - 16) / 5;
+  for (let i = 0; i < 5; i++) {
+    page.rect(margin + i * (segmentWidth + 4), y, segmentWidth, 8, i < segments ? STRENGTH_COLORS[report.strength] : RULE);
+  }
+  y += 24;
+  page.text(margin, y, `${STRENGTH_LABELS[report.strength]} (${report.score}/4)`, {
+    size: 14,
+    bold: true,
+    color: STRENGTH_COLORS[report.strength],
+  });
+  y += 20;
+
+  if (report.breach?.breached) {
+    paragraph('Found in data breaches. Scored Very Weak regardless of length or complexity.', DANGER);
+  }
+
+  heading('Summary');
+  const summary: [string, string][] = [
+    ['Length', `${report.length} characters`],
+    ['Entropy', `${report.entropy} bits brute-force, ${report.effectiveEntropy} effective`],
+    ['Guesses', `About ${report.guesses}`],
+    ['Crack time', report.crackTime],
+  ];
+  if (report.breach) {
+    summary.push(['Breaches', report.breach.breached ? 'Found' : 'Not found']);
+  }
+  for (const [label, value] of summary) row([[label, margin], [value, margin + 120]]);
+
+  heading('Crack times by hash');
+  row([['Hash', margin], ['Guesses per second', margin + 180], ['Time', margin + 320]], { bold: true });
+  for (const entry of report.crackTimes) {
+    row([[entry.label, margin], [entry.guessesPerSecond, margin + 180], [entry.time, margin + 320]]);
+  }
+
+  heading('Patterns');
+  if (report.patterns.length === 0) row([['No patterns detected.', margin]]);
+  for (const pattern of report.patterns) {
+    row([[PATTERN_LABELS[pattern.kind], margin], [`${pattern.length} characters`, margin + 180]]);
+  }
+
+  if (report.policy) {
+    heading(`Policy: ${report.policy.name} (${STATUS_LABELS[report.policy.status]})`);
+    for (const rule of report.policy.rules) {
+      row([[rule.label.slice(0, 48), margin], [STATUS_LABELS[rule.status], margin + 260], [rule.detail.slice(0, 36), margin + 330]], {
+        color: rule.status === 'fail' ? DANGER : undefined,
+      });
+    }
+  }
+
+  heading('Character classes');
+  const classes = Object.entries(report.charts.characterClasses) as [keyof typeof CLASS_LABELS, number][];
+  const most = Math.max(1, ...classes.map(([, count]) => count));
+  for (const [name, count] of classes) {
+    ensure(14);
+    page.text(margin, y, CLASS_LABELS[name], { size: 10 });
+    if (count > 0) page.rect(margin + 120, y - 8, (count / most) * 260, 9, [0.2, 0.4, 0.8]);
+    page.text(margin + 390, y, String(count), { size: 10 });
+    y += 14;
+  }
+
+  heading('Recommendations');
+  for (const item of report.feedback) paragraph(`• ${item}`);
+
+  return pdf.toBytes();
+}
+
+/** `password-report-2024-05-01.json` and so on. */
+export function reportFileName(report: RedactedReport, format: ExportFormat): string {
+  const extension = format === 'markdown' ? 'md' : format;
+  return `password-report-${report.generatedAt.slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,55 @@
+export interface TrieNode {
+  /** Absent on leaves, which make up most of the nodes of a word list. */
+  children?: Map<string, TrieNode>;
+  /** Rank of the word ending at this node, if any. Rank 1 is the most common. */
+  rank?: number;
+}
+
+export interface TrieHit {
+  start: number;
+  end: number;
+  rank: number;
+}
+
+/** Builds a trie from words in rank order, keeping the best rank for duplicates. */
+export function buildTrie(words: string[]): TrieNode {
+  const root: TrieNode = {};
+
+  words.forEach((word, index) => {
+    let node = root;
+    for (const char of word) {
+      node.children ??= new Map();
+      let child = node.children.get(char);
+      if (!child) {
+        child = {};
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    if (node.rank === undefined) node.rank = index + 1;
+  });
+
+  return root;
+}
+
+/**
+ * Finds every substring of `text` that is a word in the trie. Offsets are UTF-16
+ * indices into `text`, with `end` exclusive.
+ */
+export function searchTrie(root: TrieNode, text: string): TrieHit[] {
+  const hits: TrieHit[] = [];
+
+  for (let start = 0; start < text.length; start++) {
+    let node = root;
+    let end = start;
+    while (end < text.length) {
+      const char = text.codePointAt(end) > 0xffff ? text.slice(end, end + 2) : text[end];
+      node = node.children?.get(char);
+      if (!node) break;
+      end += char.length;
+      if (node.rank !== undefined) hits.push({ start, end, rank: node.rank });
+    }
+  }
+
+  return hits;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePassword } from './passwordAnalysis';
+import { analyzeUnicode, categoryOf, graphemeLength, scriptOf, splitGraphemes, toMatchingForm } from './unicode';
+
+// e followed by a combining acute accent
+const COMBINED_E = 'e\u0301';
+const FAMILY = '👨‍👩‍👧';
+const CYRILLIC_A = '\u0430';
+const ZERO_WIDTH_SPACE = '\u200b';
+const SOFT_HYPHEN = '\u00ad';
+
+describe('splitGraphemes', () => {
+  it('keeps emoji sequences and combining accents whole', () => {
+    expect(splitGraphemes(`${COMBINED_E}${FAMILY}🇬🇧`)).toEqual([COMBINED_E, FAMILY, '🇬🇧']);
+    expect(graphemeLength(FAMILY)).toBe(1);
+  });
+});
+
+describe('toMatchingForm', () => {
+  it('folds fullwidth and compatibility forms with NFKC', () => {
+    expect(toMatchingForm('ｐａｓｓｗｏｒｄ１')).toBe('password1');
+    expect(toMatchingForm(COMBINED_E)).toBe('\u00e9');
+  });
+
+  it('folds lookalikes only next to Latin letters', () => {
+    expect(toMatchingForm(`p${CYRILLIC_A}ssword`)).toBe('password');
+    expect(toMatchingForm('пароль')).toBe('пароль');
+  });
+
+  it('drops invisible characters but not emoji joiners', () => {
+    expect(toMatchingForm(`pass${ZERO_WIDTH_SPACE}word${SOFT_HYPHEN}`)).toBe('password');
+    expect(toMatchingForm(FAMILY)).toBe(FAMILY);
+  });
+});
+
+describe('scriptOf and categoryOf', () => {
+  it('name the script and category of a grapheme', () => {
+    expect(['a', 'Ω', 'ж', '漢', '😀', '1'].map(scriptOf)).toEqual(['Latin', 'Greek', 'Cyrillic', 'Han', 'Emoji', 'Common']);
+    expect(['A', 'a', '漢', '7', '!', ' ', ZERO_WIDTH_SPACE, FAMILY].map(categoryOf)).toEqual([
+      'uppercase',
+      'lowercase',
+      'otherLetter',
+      'number',
+      'punctuation',
+      'separator',
+      'invisible',
+      'emoji',
+    ]);
+  });
+});
+
+describe('analyzeUnicode', () => {
+  it('counts graphemes and code points and lists scripts by frequency', () => {
+    const analysis = analyzeUnicode(`abc日本${FAMILY}`);
+    expect(analysis).toMatchObject({ graphemes: 6, codePoints: 10, normalized: false });
+    expect(analysis.scripts).toEqual([
+      { script: 'Latin', count: 3 },
+      { script: 'Han', count: 2 },
+      { script: 'Emoji', count: 1 },
+    ]);
+  });
+
+  it('reports confusables and invisible characters by grapheme position', () => {
+    const analysis = analyzeUnicode(`p${CYRILLIC_A}ss${ZERO_WIDTH_SPACE}word`);
+    expect(analysis.normalized).toBe(true);
+    expect(analysis.matchingLength).toBe(8);
+    expect(analysis.confusables).toEqual([{ position: 2, char: CYRILLIC_A, looksLike: 'a', script: 'Cyrillic' }]);
+    expect(analysis.invisibles).toEqual([{ position: 5, codePoint: 'U+200B' }]);
+  });
+
+  it('lets detectors see through lookalikes while lengths count what was typed', () => {
+    const spoofed = analyzePassword(`p${CYRILLIC_A}ssword`);
+    expect(spoofed.score).toBe(analyzePassword('password').score);
+    expect(analyzePassword(FAMILY.repeat(2)).length).toBe(2);
+  });
+});
@@ -0,0 +1,243 @@
+export type UnicodeCategory =
+  | 'uppercase'
+  | 'lowercase'
+  | 'otherLetter'
+  | 'mark'
+  | 'number'
+  | 'punctuation'
+  | 'symbol'
+  | 'emoji'
+  | 'separator'
+  | 'invisible'
+  | 'control';
+
+export const UNICODE_CATEGORY_LABELS: Record<UnicodeCategory, string> = {
+  uppercase: 'Uppercase letters',
+  lowercase: 'Lowercase letters',
+  otherLetter: 'Uncased letters',
+  mark: 'Combining marks',
+  number: 'Numbers',
+  punctuation: 'Punctuation',
+  symbol: 'Symbols',
+  emoji: 'Emoji',
+  separator: 'Spaces',
+  invisible: 'Invisible',
+  control: 'Control',
+};
+
+export interface ScriptCount {
+  script: string;
+  count: number;
+}
+
+export interface CategoryCount {
+  category: UnicodeCategory;
+  count: number;
+}
+
+/** A character from another script that renders like a Latin one. */
+export interface Confusable {
+  /** 1-based grapheme position in the password as typed. */
+  position: number;
+  char: string;
+  looksLike: string;
+  script: string;
+}
+
+export interface InvisibleCharacter {
+  /** 1-based grapheme position in the password as typed. */
+  position: number;
+  /** The code point as `U+XXXX`. */
+  codePoint: string;
+}
+
+export interface UnicodeAnalysis {
+  /** User-perceived characters, so an emoji family or `é` written as `e` + accent is one. */
+  graphemes: number;
+  codePoints: number;
+  /** True when NFKC, confusable folding or removing invisible characters changed the input. */
+  normalized: boolean;
+  /** UTF-16 length of the matching form, which pattern offsets index into. */
+  matchingLength: number;
+  /** Graphemes per script, most frequent first. */
+  scripts: ScriptCount[];
+  categories: CategoryCount[];
+  confusables: Confusable[];
+  invisibles: InvisibleCharacter[];
+}
+
+export const EMPTY_UNICODE_ANALYSIS: UnicodeAnalysis = {
+  graphemes: 0,
+  codePoints: 0,
+  normalized: false,
+  matchingLength: 0,
+  scripts: [],
+  categories: [],
+  confusables: [],
+  invisibles: [],
+};
+
+// Scripts checked in order; the first whose property matches names the grapheme.
+const SCRIPTS: [string, RegExp][] = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+  ['Bengali', /\p{Script=Bengali}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Georgian', /\p{Script=Georgian}/u],
+  ['Hangul', /\p{Script=Hangul}/u],
+  ['Hiragana', /\p{Script=Hiragana}/u],
+  ['Katakana', /\p{Script=Katakana}/u],
+  ['Han', /\p{Script=Han}/u],
+];
+
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+// Zero-width and formatting characters that render as nothing. Joiners and variation
+// selectors inside an emoji sequence are part of the emoji and are not flagged.
+const INVISIBLE_RANGES: [number, number][] = [
+  [0x00ad, 0x00ad],
+  [0x034f, 0x034f],
+  [0x115f, 0x1160],
+  [0x17b4, 0x17b5],
+  [0x180b, 0x180f],
+  [0x200b, 0x200f],
+  [0x202a, 0x202e],
+  [0x2060, 0x206f],
+  [0x3164, 0x3164],
+  [0xfe00, 0xfe0f],
+  [0xfeff, 0xfeff],
+  [0xffa0, 0xffa0],
+];
+
+function isInvisible(char: string): boolean {
+  const codePoint = char.codePointAt(0);
+  return /\p{Cf}/u.test(char) || INVISIBLE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end);
+}
+
+// Greek and Cyrillic letters that are indistinguishable from Latin ones in most fonts.
+// Fullwidth and mathematical forms need no entry: NFKC already folds them. They only
+// count as confusable next to Latin letters; a word written wholly in Cyrillic is not.
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  '\u0430': 'a', '\u0435': 'e', '\u043e': 'o', '\u0440': 'p', '\u0441': 'c', '\u0443': 'y',
+  '\u0445': 'x', '\u0455': 's', '\u0456': 'i', '\u0458': 'j', '\u04bb': 'h', '\u04cf': 'l',
+  '\u0501': 'd', '\u051b': 'q', '\u051d': 'w',
+  '\u0405': 'S', '\u0406': 'I', '\u0408': 'J', '\u0410': 'A', '\u0412': 'B', '\u0415': 'E',
+  '\u041a': 'K', '\u041c': 'M', '\u041d': 'H', '\u041e': 'O', '\u0420': 'P', '\u0421': 'C',
+  '\u0422': 'T', '\u0425': 'X', '\u04ae': 'Y',
+  // Greek
+  '\u03b1': 'a', '\u03b9': 'i', '\u03bd': 'v', '\u03bf': 'o', '\u03c1': 'p',
+  '\u0391': 'A', '\u0392': 'B', '\u0395': 'E', '\u0396': 'Z', '\u0397': 'H', '\u0399': 'I',
+  '\u039a': 'K', '\u039c': 'M', '\u039d': 'N', '\u039f': 'O', '\u03a1': 'P', '\u03a4': 'T',
+  '\u03a5': 'Y', '\u03a7': 'X',
+  // Latin lookalikes outside ASCII
+  '\u0131': 'i',
+};
+
+const segmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : null;
+
+/** Splits text into grapheme clusters, falling back to code points without `Intl.Segmenter`. */
+export function splitGraphemes(text: string): string[] {
+  if (!segmenter) return Array.from(text);
+  return Array.from(segmenter.segment(text), segment => segment.segment);
+}
+
+export function graphemeLength(text: string): number {
+  return splitGraphemes(text).length;
+}
+
+export function scriptOf(grapheme: string): string {
+  if (EMOJI.test(grapheme)) return 'Emoji';
+  for (const [script, pattern] of SCRIPTS) {
+    if (pattern.test(grapheme)) return script;
+  }
+  return /\p{Script=Common}|\p{Script=Inherited}/u.test(grapheme) ? 'Common' : 'Other';
+}
+
+export function categoryOf(grapheme: string): UnicodeCategory {
+  if (EMOJI.test(grapheme)) return 'emoji';
+  const first = String.fromCodePoint(grapheme.codePointAt(0));
+  if (isInvisible(first)) return 'invisible';
+  if (/\p{Lu}|\p{Lt}/u.test(first)) return 'uppercase';
+  if (/\p{Ll}/u.test(first)) return 'lowercase';
+  if (/\p{L}/u.test(first)) return 'otherLetter';
+  if (/\p{M}/u.test(first)) return 'mark';
+  if (/\p{N}/u.test(first)) return 'number';
+  if (/\p{P}/u.test(first)) return 'punctuation';
+  if (/\p{Z}/u.test(first)) return 'separator';
+  if (/\p{C}/u.test(first)) return 'control';
+  return 'symbol';
+}
+
+function mixesWithLatin(text: string): boolean {
+  return Array.from(text).some(char => /\p{Script=Latin}/u.test(char) && !CONFUSABLES[char]);
+}
+
+/**
+ * The form every detector sees: NFKC-normalised, with Greek and Cyrillic lookalikes
+ * folded to Latin and invisible characters removed, so `password` typed with a Cyrillic
+ * `a` (U+0430) is still the common password it looks like.
+ */
+export function toMatchingForm(password: string): string {
+  const normalized = password.normalize('NFKC');
+  const fold = mixesWithLatin(normalized);
+  return splitGraphemes(normalized)
+    .map(grapheme => {
+      if (EMOJI.test(grapheme)) return grapheme;
+      return Array.from(grapheme)
+        .filter(char => !isInvisible(char))
+        .map(char => (fold ? CONFUSABLES[char] ?? char : char))
+        .join('');
+    })
+    .join('');
+}
+
+function countBy<T extends string>(values: T[]): Map<T, number> {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return counts;
+}
+
+export function analyzeUnicode(password: string): UnicodeAnalysis {
+  if (!password) return EMPTY_UNICODE_ANALYSIS;
+
+  const graphemes = splitGraphemes(password);
+  const matchingForm = toMatchingForm(password);
+  const confusables: Confusable[] = [];
+  const invisibles: InvisibleCharacter[] = [];
+  const mixed = mixesWithLatin(password.normalize('NFKC'));
+
+  graphemes.forEach((grapheme, index) => {
+    if (EMOJI.test(grapheme)) return;
+    for (const char of grapheme) {
+      if (mixed && CONFUSABLES[char]) {
+        confusables.push({ position: index + 1, char, looksLike: CONFUSABLES[char], script: scriptOf(char) });
+      }
+      if (isInvisible(char)) {
+        const hex = char.codePointAt(0).toString(16).toUpperCase().padStart(4, '0');
+        invisibles.push({ position: index + 1, codePoint: `U+${hex}` });
+      }
+    }
+  });
+
+  return {
+    graphemes: graphemes.length,
+    codePoints: Array.from(password).length,
+    normalized: matchingForm !== password,
+    matchingLength: matchingForm.length,
+    scripts: Array.from(countBy(graphemes.map(scriptOf)), ([script, count]) => ({ script, count }))
+      .sort((a, b) => b.count - a.count),
+    categories: Array.from(countBy(graphemes.map(categoryOf)), ([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count),
+    confusables,
+    invisibles,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createRankedDictionary } from './dictionary';
+import { analyzePassword, findDictionaryWords } from './passwordAnalysis';
+import { createUserInputDictionary, domainStem, USER_INPUTS_DICTIONARY, userInputTokens } from './userInputs';
+
+const USER = { name: 'John Smith', email: 'j.smith@mail.example.co.uk', siteDomain: 'https://www.shop.org' };
+
+describe('userInputTokens', () => {
+  it('derives name combinations, email parts and domain stems', () => {
+    const tokens = userInputTokens(USER);
+    expect(tokens).toEqual(expect.arrayContaining(['johnsmith', 'jsmith', 'smithj', 'johns', 'smithjohn', 'shop', 'example']));
+    expect(tokens.slice(0, 3)).toEqual(['j.smith', 'johnsmith', 'shop']);
+  });
+
+  it('puts inputs in matching form, as the password is', () => {
+    expect(userInputTokens({ username: 'ＪＳｍｉｔｈ' })).toEqual(['jsmith']);
+  });
+
+  it('keeps the registrable part of a domain', () => {
+    expect(domainStem('mail.example.co.uk')).toBe('example');
+    expect(domainStem('https://www.shop.org/login')).toBe('shop');
+  });
+});
+
+describe('personal details in analysis', () => {
+  it('outrank a built-in list that ranks the word higher', () => {
+    const dictionaries = [createRankedDictionary('surnames', ['smith']), createUserInputDictionary({ name: 'Ann Other Smith' })];
+    expect(findDictionaryWords('Smith!2024xyz', dictionaries)).toEqual([
+      expect.objectContaining({ token: 'Smith', dictionaryName: USER_INPUTS_DICTIONARY }),
+    ]);
+  });
+
+  it('cap the score however strong the rest is', () => {
+    const anonymous = analyzePassword('JohnSmith!Orbit-9274quill');
+    const personal = analyzePassword('JohnSmith!Orbit-9274quill', { userInputs: USER });
+    expect(anonymous.score).toBe(4);
+    expect(personal.score).toBeLessThanOrEqual(2);
+    expect(personal.feedback).toContain('Avoid your name, email, username or the site name');
+
+    // Mostly personal: lower still
+    expect(analyzePassword('jsmith2024', { userInputs: USER }).score).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { createRankedDictionary, Dictionary } from './dictionary';
+import { toMatchingForm } from './unicode';
+
+export const USER_INPUTS_DICTIONARY = 'user-inputs';
+
+/** Facts about the account holder that an attacker targeting them would try first. */
+export interface UserInputs {
+  name?: string;
+  email?: string;
+  username?: string;
+  company?: string;
+  siteDomain?: string;
+}
+
+// Second-level labels that belong to the public suffix rather than the site name.
+const SECOND_LEVEL_SUFFIXES = ['co', 'com', 'net', 'org', 'gov', 'ac', 'edu'];
+
+function fragments(value: string): string[] {
+  return value.split(/[\s._+\-@,'&]+/).filter(Boolean);
+}
+
+function hostname(domain: string): string {
+  return domain.trim().replace(/^https?:\/\//, '').split('/')[0].replace(/^www\./, '');
+}
+
+/** The registrable name of a domain, e.g. `example` for `mail.example.co.uk`. */
+export function domainStem(domain: string): string {
+  const labels = hostname(domain).split('.').filter(Boolean);
+  if (labels.length < 2) return labels[0] ?? '';
+
+  const secondLevel = labels[labels.length - 2];
+  if (labels.length >= 3 && SECOND_LEVEL_SUFFIXES.includes(secondLevel)) {
+    return labels[labels.length - 3];
+  }
+  return secondLevel;
+}
+
+/**
+ * The ways people fold a full name into a login or password: `jsmith`, `smithj`, `johns`,
+ * `smithjohn` and, for three or more names, the initials.
+ */
+function nameCombinations(name: string): string[] {
+  const words = fragments(name.toLowerCase());
+  if (words.length < 2) return [];
+
+  const first = words[0];
+  const last = words[words.length - 1];
+  const initials = words.map(word => word[0]).join('');
+  return [
+    first[0] + last,
+    last + first[0],
+    first + last[0],
+    last + first,
+    `${first[0]}${words.slice(1).join('')}`,
+    ...(words.length >= 3 ? [initials] : []),
+  ];
+}
+
+/**
+ * Lowercased tokens derived from the user inputs, whole values first, then their parts:
+ * name words and their usual combinations, the email local part and domain stem,
+ * username pieces and so on. Inputs are put in matching form first, as the password is,
+ * so a fullwidth or look-alike spelling of a name still matches.
+ */
+export function userInputTokens(inputs: UserInputs): string[] {
+  const tokens: string[] = [];
+  const add = (...values: string[]) => {
+    for (const value of values) {
+      const token = value.trim().toLowerCase();
+      if (token) tokens.push(token);
+    }
+  };
+
+  const [name, email, username, company, siteDomain] = [
+    inputs.name,
+    inputs.email,
+    inputs.username,
+    inputs.company,
+    inputs.siteDomain,
+  ].map(value => toMatchingForm(value ?? ''));
+  const [localPart = '', emailDomain = ''] = email.split('@');
+
+  add(username, localPart, name.replace(/\s+/g, ''), company.replace(/\s+/g, ''));
+  add(domainStem(siteDomain), domainStem(emailDomain));
+  add(...fragments(name), ...fragments(username), ...fragments(localPart), ...fragments(company));
+  add(...nameCombinations(name));
+  add(email, hostname(siteDomain), emailDomain);
+
+  return Array.from(new Set(tokens));
+}
+
+/** A dictionary of the user inputs, ranked ahead of every built-in word list. */
+export function createUserInputDictionary(inputs: UserInputs): Dictionary {
+  return createRankedDictionary(USER_INPUTS_DICTIONARY, userInputTokens(inputs));
+}
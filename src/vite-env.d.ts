@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Range API for breach checks, e.g. a self-hosted Pwned Passwords mirror. */
+  readonly VITE_BREACH_RANGE_ENDPOINT?: string;
+}
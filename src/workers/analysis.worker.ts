@@ -0,0 +1,90 @@
+import { analyzeBatch } from '@/utils/batch';
+import { buildBreachIndex, readBreachIndex, readRangeSources } from '@/utils/breachIndex';
+import { loadDictionaries } from '@/utils/dictionary';
+import { describeSpace, generatePassword } from '@/utils/generator';
+import { loadNgramModel } from '@/utils/markov';
+import { analyzePassword } from '@/utils/passwordAnalysis';
+import { loadPcfgModel } from '@/utils/pcfg';
+import { WorkerRequest, WorkerResponse } from './messages';
+
+type QueuedRequest = Extract<WorkerRequest, { type: 'analyze' | 'space' | 'generate' }>;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) =>
+  (self as unknown as Worker).postMessage(message, transfer);
+
+// Analyses run without the assets until they arrive; the page re-requests on `ready`
+Promise.all([loadDictionaries(), loadNgramModel(), loadPcfgModel()])
+  .catch(error => console.error('Asset load error:', error))
+  .finally(() => post({ type: 'ready' }));
+
+// Analyses and generator requests wait here for one tick so cancellations sent while
+// the worker was busy remove them before they start
+const pending = new Map<number, QueuedRequest>();
+const batches = new Map<number, AbortController>();
+let draining = false;
+
+// The generator's compiled policies are cached here, so counting a policy's space
+// also prepares drawing from it
+function answer(request: QueuedRequest): WorkerResponse {
+  if (request.type === 'space') return { type: 'space', id: request.id, space: describeSpace(request.policy) };
+  if (request.type === 'generate') return { type: 'password', id: request.id, password: generatePassword(request.policy) };
+  return { type: 'analysis', id: request.id, analysis: analyzePassword(request.password, request.options) };
+}
+
+function drain() {
+  draining = false;
+  for (const request of pending.values()) {
+    pending.delete(request.id);
+    try {
+      post(answer(request));
+    } catch (error) {
+      post({ type: 'error', id: request.id, message: (error as Error).message });
+    }
+  }
+}
+
+async function runBatch(request: Extract<WorkerRequest, { type: 'batch' }>) {
+  const controller = new AbortController();
+  batches.set(request.id, controller);
+  try {
+    const rows = await analyzeBatch(request.passwords, {
+      policy: request.policy,
+      signal: controller.signal,
+      onProgress: done => post({ type: 'progress', id: request.id, done }),
+    });
+    post({ type: 'batch', id: request.id, rows });
+  } catch (error) {
+    if (!controller.signal.aborted) post({ type: 'error', id: request.id, message: (error as Error).message });
+  } finally {
+    batches.delete(request.id);
+  }
+}
+
+// Decoding and sorting millions of range entries takes seconds, so it happens here
+async function buildIndex(request: Extract<WorkerRequest, { type: 'breach-index' }>) {
+  try {
+    const sources = await readRangeSources(request.files);
+    const index = buildBreachIndex(request.hashType, sources, request.base && readBreachIndex(request.base));
+    post({ type: 'breach-index', id: request.id, bytes: index.bytes }, [index.bytes.buffer]);
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: (error as Error).message });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    pending.delete(request.id);
+    batches.get(request.id)?.abort();
+  } else if (request.type === 'batch') {
+    runBatch(request);
+  } else if (request.type === 'breach-index') {
+    buildIndex(request);
+  } else {
+    pending.set(request.id, request);
+    if (!draining) {
+      draining = true;
+      setTimeout(drain);
+    }
+  }
+});
@@ -0,0 +1,125 @@
+import { analyzeBatch, BatchOptions, BatchRow } from '@/utils/batch';
+import { BreachHashType, BreachIndex, buildBreachIndex, readBreachIndex, readRangeSources } from '@/utils/breachIndex';
+import { loadDictionaries } from '@/utils/dictionary';
+import { describeSpace, GenerationPolicy, GenerationSpace, generatePassword } from '@/utils/generator';
+import { loadNgramModel } from '@/utils/markov';
+import { AnalysisOptions, analyzePassword, PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { loadPcfgModel } from '@/utils/pcfg';
+import { WorkerRequest, WorkerResponse } from './messages';
+
+/** Runs the analysis engine off the main thread where it can. */
+export interface AnalysisClient {
+  /** Settles once the word lists and models have loaded, or failed to. */
+  ready: Promise<void>;
+  /** Rejects with the signal's reason if aborted before the result arrives. */
+  analyze(password: string, options?: AnalysisOptions, signal?: AbortSignal): Promise<PasswordAnalysis>;
+  analyzeBatch(passwords: string[], options?: BatchOptions): Promise<BatchRow[]>;
+  /** Counts a generation policy's space, which can take seconds for long, constrained ones. */
+  describeSpace(policy: GenerationPolicy, signal?: AbortSignal): Promise<GenerationSpace>;
+  /** Draws from a policy on the thread that counted it, where its compiled form is cached. */
+  generatePassword(policy: GenerationPolicy): Promise<string>;
+  /** Merges imported range files into `base`, or into a new index without one. */
+  buildBreachIndex(hashType: BreachHashType, files: File[], base?: BreachIndex): Promise<BreachIndex>;
+}
+
+type Reply = PasswordAnalysis | BatchRow[] | GenerationSpace | string | BreachIndex;
+
+interface OpenRequest {
+  resolve: (value: Reply) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (done: number) => void;
+}
+
+function createWorkerClient(): AnalysisClient {
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  const requests = new Map<number, OpenRequest>();
+  let nextId = 1;
+  let markReady: () => void;
+  const ready = new Promise<void>(resolve => {
+    markReady = resolve;
+  });
+
+  worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') return markReady();
+
+    // Replies to cancelled requests have no entry and are dropped
+    const request = requests.get(message.id);
+    if (!request) return;
+    if (message.type === 'progress') return request.onProgress?.(message.done);
+
+    requests.delete(message.id);
+    if (message.type === 'error') request.reject(new Error(message.message));
+    else if (message.type === 'analysis') request.resolve(message.analysis);
+    else if (message.type === 'batch') request.resolve(message.rows);
+    else if (message.type === 'space') request.resolve(message.space);
+    else if (message.type === 'breach-index') request.resolve(readBreachIndex(message.bytes));
+    else request.resolve(message.password);
+  });
+
+  worker.addEventListener('error', (event) => {
+    console.error('Analysis worker error:', event.message);
+    requests.forEach(request => request.reject(new Error('The analysis worker stopped')));
+    requests.clear();
+    markReady();
+  });
+
+  function send<T>(build: (id: number) => WorkerRequest, signal?: AbortSignal, onProgress?: OpenRequest['onProgress']) {
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      requests.set(id, { resolve: resolve as OpenRequest['resolve'], reject, onProgress });
+      signal?.addEventListener('abort', () => {
+        if (!requests.delete(id)) return;
+        worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+        reject(signal.reason);
+      }, { once: true });
+      worker.postMessage(build(id));
+    });
+  }
+
+  return {
+    ready,
+    analyze: (password, options = {}, signal) =>
+      send<PasswordAnalysis>(id => ({ type: 'analyze', id, password, options }), signal),
+    analyzeBatch: (passwords, options = {}) =>
+      send<BatchRow[]>(
+        id => ({ type: 'batch', id, passwords, policy: options.policy }),
+        options.signal,
+        options.onProgress
+      ),
+    describeSpace: (policy, signal) => send<GenerationSpace>(id => ({ type: 'space', id, policy }), signal),
+    generatePassword: policy => send<string>(id => ({ type: 'generate', id, policy })),
+    buildBreachIndex: (hashType, files, base) =>
+      send<BreachIndex>(id => ({ type: 'breach-index', id, hashType, files, base: base?.bytes })),
+  };
+}
+
+/** Same interface on the calling thread, for environments without workers. */
+function createInlineClient(): AnalysisClient {
+  return {
+    ready: Promise.all([loadDictionaries(), loadNgramModel(), loadPcfgModel()]).then(
+      () => undefined,
+      error => console.error('Asset load error:', error)
+    ),
+    analyze: async (password, options = {}, signal) => {
+      signal?.throwIfAborted();
+      return analyzePassword(password, options);
+    },
+    analyzeBatch,
+    describeSpace: async (policy, signal) => {
+      signal?.throwIfAborted();
+      return describeSpace(policy);
+    },
+    generatePassword: async policy => generatePassword(policy),
+    buildBreachIndex: async (hashType, files, base) => buildBreachIndex(hashType, await readRangeSources(files), base),
+  };
+}
+
+let client: AnalysisClient | null = null;
+
+/** The shared client; the worker and its assets are created on first use. */
+export function getAnalysisClient(): AnalysisClient {
+  client ??= typeof Worker === 'undefined' ? createInlineClient() : createWorkerClient();
+  return client;
+}
@@ -0,0 +1,26 @@
+import { BatchRow } from '@/utils/batch';
+import { BreachHashType } from '@/utils/breachIndex';
+import { GenerationPolicy, GenerationSpace } from '@/utils/generator';
+import { AnalysisOptions, PasswordAnalysis } from '@/utils/passwordAnalysis';
+import { PasswordPolicy } from '@/utils/policy';
+
+/** Messages the page sends to the analysis worker. */
+export type WorkerRequest =
+  | { type: 'analyze'; id: number; password: string; options: AnalysisOptions }
+  | { type: 'batch'; id: number; passwords: string[]; policy?: PasswordPolicy }
+  | { type: 'space'; id: number; policy: GenerationPolicy }
+  | { type: 'generate'; id: number; policy: GenerationPolicy }
+  /** `base` is the bytes of the stored index of the same hash type, to merge into. */
+  | { type: 'breach-index'; id: number; hashType: BreachHashType; files: File[]; base?: Uint8Array }
+  | { type: 'cancel'; id: number };
+
+/** Messages the worker sends back. Every reply but `ready` answers the request with that `id`. */
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'analysis'; id: number; analysis: PasswordAnalysis }
+  | { type: 'progress'; id: number; done: number }
+  | { type: 'batch'; id: number; rows: BatchRow[] }
+  | { type: 'space'; id: number; space: GenerationSpace }
+  | { type: 'password'; id: number; password: string }
+  | { type: 'breach-index'; id: number; bytes: Uint8Array }
+  | { type: 'error'; id: number; message: string };
@@ -4,12 +4,16 @@ import path from "path";
 import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
+export default defineConfig(({ mode, isSsrBuild }) => ({
   server: {
     host: "::",
     port: 8080,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  build: {
+    // The CLI build reads the assets from public/ in place
+    copyPublicDir: !isSsrBuild,
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),